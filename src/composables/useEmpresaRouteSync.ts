@@ -0,0 +1,33 @@
+import { watch } from 'vue';
+import { useRoute, useRouter } from 'vue-router';
+import { useFormsStore } from '@/stores/dte';
+
+/**
+ * Keep the selected empresa and the ?empresa= query param in step. A shared
+ * link's empresa takes precedence over the persisted selection, `refresh`
+ * runs whenever the param switches to another empresa (selector or browser
+ * navigation), and the selection is written back to the URL so links open
+ * the same company. Call it during setup, before the view loads its data.
+ */
+export const useEmpresaRouteSync = (refresh: () => Promise<unknown>) => {
+  const route = useRoute();
+  const router = useRouter();
+  const formsStore = useFormsStore();
+
+  const rutFromRoute = route.query.empresa;
+  if (typeof rutFromRoute === 'string' && rutFromRoute) {
+    formsStore.setEmpresa(rutFromRoute);
+  }
+
+  watch(() => route.query.empresa, async (rutEmpresa) => {
+    if (typeof rutEmpresa !== 'string' || !rutEmpresa || rutEmpresa === formsStore.selectedRutEmpresa) return;
+    formsStore.setEmpresa(rutEmpresa);
+    await refresh();
+  });
+
+  watch(() => formsStore.selectedRutEmpresa, (rutEmpresa) => {
+    if (rutEmpresa && route.query.empresa !== rutEmpresa) {
+      router.replace({ query: { ...route.query, empresa: rutEmpresa } });
+    }
+  }, { immediate: true });
+};
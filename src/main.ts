@@ -3,10 +3,21 @@ import { createPinia } from 'pinia'
 
 import App from './App.vue'
 import router from './router'
+import { onSessionExpired } from './services/api'
+import { useAuthStore } from './stores/auth'
 
 const app = createApp(App)
 
 app.use(createPinia())
 app.use(router)
 
+// A 401 that could not be refreshed sends the user back to the login screen
+onSessionExpired(() => {
+  useAuthStore().clearSession()
+  const current = router.currentRoute.value
+  if (current.name !== 'login') {
+    router.push({ name: 'login', query: { redirect: current.fullPath } })
+  }
+})
+
 app.mount('#app')
@@ -1,21 +1,97 @@
 import { createRouter, createWebHistory } from 'vue-router'
 import DebugView from '../views/DebugView.vue'
 import ListaFacturasView from '@/views/ListaFacturasView.vue'
+import ListaVentasView from '@/views/ListaVentasView.vue'
+import DeclaracionMensualView from '@/views/DeclaracionMensualView.vue'
+import ComparativoPeriodosView from '@/views/ComparativoPeriodosView.vue'
+import ProveedorView from '@/views/ProveedorView.vue'
+import AntiguedadSaldosView from '@/views/AntiguedadSaldosView.vue'
+import ActividadView from '@/views/ActividadView.vue'
+import UsoSiiView from '@/views/UsoSiiView.vue'
+import LoginView from '@/views/LoginView.vue'
+import { useAuthStore } from '@/stores/auth'
+import type { Permiso } from '@/utils/permisos'
+
+declare module 'vue-router' {
+  interface RouteMeta {
+    // Reachable without signing in
+    public?: boolean
+    // Required on top of being signed in
+    permiso?: Permiso
+  }
+}
 
 const router = createRouter({
   history: createWebHistory(import.meta.env.BASE_URL),
   routes: [
+    {
+      path: '/login',
+      name: 'login',
+      component: LoginView,
+      meta: { public: true }
+    },
     {
       path: '/',
       name: 'facturas',
       component: ListaFacturasView
     },
+    {
+      path: '/ventas',
+      name: 'ventas',
+      component: ListaVentasView
+    },
+    {
+      path: '/declaracion-mensual',
+      name: 'declaracion-mensual',
+      component: DeclaracionMensualView
+    },
+    {
+      path: '/comparativo',
+      name: 'comparativo',
+      component: ComparativoPeriodosView
+    },
+    {
+      path: '/antiguedad-saldos',
+      name: 'antiguedad-saldos',
+      component: AntiguedadSaldosView
+    },
+    {
+      path: '/actividad',
+      name: 'actividad',
+      component: ActividadView
+    },
+    {
+      path: '/uso-sii',
+      name: 'uso-sii',
+      component: UsoSiiView
+    },
+    {
+      path: '/proveedores/:rut',
+      name: 'proveedor',
+      component: ProveedorView
+    },
     {
       path: '/debug',
       name: 'debug',
-      component: DebugView
+      component: DebugView,
+      meta: { permiso: 'administrar' }
     }
   ]
 })
 
+router.beforeEach((to) => {
+  const authStore = useAuthStore()
+
+  if (to.meta.public) {
+    return to.name === 'login' && authStore.isAuthenticated ? { name: 'facturas' } : true
+  }
+  if (!authStore.isAuthenticated) {
+    return { name: 'login', query: { redirect: to.fullPath } }
+  }
+  if (to.meta.permiso && !authStore.can(to.meta.permiso)) {
+    return { name: 'facturas' }
+  }
+  return true
+})
+
 export default router
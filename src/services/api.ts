@@ -1,5 +1,36 @@
-import axios from 'axios';
-import type { Empresa, Periodo, ResumenCompras, DetalleCompras, Proveedor, TipoDte, Notas } from '../types/api';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import { authSession } from './authSession';
+import { normalizarRut, pareceRut, rutParaFiltro } from '../utils/rut';
+import type {
+  Empresa,
+  Periodo,
+  ResumenCompras,
+  DetalleComprasPage,
+  DetalleComprasQuery,
+  ResumenVentas,
+  DetalleVentas,
+  Proveedor,
+  TipoDte,
+  Notas,
+  NotaKey,
+  NotaLegacy,
+  NotasBulkUpdate,
+  NotasBulkResult,
+  NotaCambio,
+  NotaCambiosQuery,
+  NotaCambiosPage,
+  NewRecordNotification,
+  SiiFetchJob,
+  SiiCallCount,
+  SiiCallHistoryEntry,
+  SiiCallHistoryQuery,
+  Pago,
+  PagoCambio,
+  MetodoPago,
+  AuthResponse,
+  LoginRequest,
+  Usuario
+} from '../types/api';
 
 const api = axios.create({
   baseURL: import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000',
@@ -9,9 +40,20 @@ const api = axios.create({
   },
 });
 
+// Called when the session expired and could not be refreshed; set up in main.ts
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const onSessionExpired = (handler: () => void) => {
+  sessionExpiredHandler = handler;
+};
+
 // Request interceptor
 api.interceptors.request.use(
   (config) => {
+    const token = authSession.getAccessToken();
+    if (token) {
+      config.headers.Authorization = `Bearer ${token}`;
+    }
     return config;
   },
   (error) => {
@@ -19,20 +61,80 @@ api.interceptors.request.use(
   }
 );
 
+// Concurrent 401s share a single refresh request
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const session = authSession.get();
+    refreshPromise = (session
+      ? authApi.refresh(session.refreshToken).then((response) => {
+        authSession.set(response.data);
+        return response.data.accessToken;
+      })
+      : Promise.reject(new Error('No hay sesión activa'))
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 // Response interceptor
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
+    const original = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+    // Retry once with a fresh token; auth endpoints report their own 401s
+    if (error.response?.status === 401 && original && !original._retried && !original.url?.startsWith('/api/auth/')) {
+      original._retried = true;
+      try {
+        const token = await refreshAccessToken();
+        original.headers.Authorization = `Bearer ${token}`;
+        return api(original);
+      } catch {
+        authSession.clear();
+        sessionExpiredHandler?.();
+      }
+    }
+
     console.error('API Error:', error);
     return Promise.reject(error);
   }
 );
 
+// Auth endpoints
+export const authApi = {
+  login: (credentials: LoginRequest) =>
+    api.post<AuthResponse>('/api/auth/login', credentials),
+
+  refresh: (refreshToken: string) =>
+    api.post<AuthResponse>('/api/auth/refresh', { refreshToken }),
+
+  // Revokes the refresh token server-side
+  logout: (refreshToken: string) =>
+    api.post('/api/auth/logout', { refreshToken }),
+
+  me: () => api.get<Usuario>('/api/auth/me'),
+};
+
+// RUTs in URL paths always go in canonical form, whatever the caller typed
+const rutPath = (rut: string) => encodeURIComponent(normalizarRut(rut));
+
+// Same for RUT query filters; partial supplier/client RUTs are sent as digits
+const queryParamValue = (key: string, value: string | number | boolean): string => {
+  if (typeof value !== 'string') return value.toString();
+  if (key === 'rutEmpresa') return normalizarRut(value);
+  if (key === 'rutProveedor' || key === 'rutCliente') return rutParaFiltro(value);
+  return value;
+};
+
 // DTE API methods
 export const dteApi = {
   // Empresa endpoints
   getAllEmpresas: () => api.get<Empresa[]>('/api/dte/empresas'),
-  getEmpresaByRut: (rut: string) => api.get<Empresa>(`/api/dte/empresas/${rut}`),
+  getEmpresaByRut: (rut: string) => api.get<Empresa>(`/api/dte/empresas/${rutPath(rut)}`),
 
   // Periodo endpoints
   getPeriodosByEmpresa: (rutEmpresa: string, anio?: string, mes?: string) => {
@@ -40,18 +142,46 @@ export const dteApi = {
     if (anio) params.append('anio', anio);
     if (mes) params.append('mes', mes);
     const queryString = params.toString();
-    return api.get<Periodo[]>(`/api/dte/empresas/${rutEmpresa}/periodos${queryString ? `?${queryString}` : ''}`);
+    return api.get<Periodo[]>(`/api/dte/empresas/${rutPath(rutEmpresa)}/periodos${queryString ? `?${queryString}` : ''}`);
   },
 
   // Resumen compras endpoints
-  getResumenCompras: (periodoId?: string) => {
+  getResumenCompras: (periodoId?: string, rutEmpresa?: string) => {
+    const params = new URLSearchParams();
+    if (!periodoId && rutEmpresa) params.append('rutEmpresa', normalizarRut(rutEmpresa));
+    const queryString = params.toString();
     const endpoint = periodoId ? `/api/dte/resumen-compras/${periodoId}` : '/api/dte/resumen-compras';
-    return api.get<ResumenCompras[]>(endpoint);
+    return api.get<ResumenCompras[]>(`${endpoint}${queryString ? `?${queryString}` : ''}`);
+  },
+
+  // Detalle compras endpoints (paginated; the backend applies filters and sorting)
+  getDetalleCompras: (periodoId?: string, filters?: DetalleComprasQuery) => {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          params.append(key, queryParamValue(key, value));
+        }
+      });
+    }
+    const queryString = params.toString();
+    const endpoint = periodoId ? `/api/dte/detalle-compras/${periodoId}` : '/api/dte/detalle-compras';
+    return api.get<DetalleComprasPage>(`${endpoint}${queryString ? `?${queryString}` : ''}`);
   },
 
-  // Detalle compras endpoints
-  getDetalleCompras: (periodoId?: string, filters?: {
-    rutProveedor?: string;
+  // Resumen ventas endpoints
+  getResumenVentas: (periodoId?: string, rutEmpresa?: string) => {
+    const params = new URLSearchParams();
+    if (!periodoId && rutEmpresa) params.append('rutEmpresa', normalizarRut(rutEmpresa));
+    const queryString = params.toString();
+    const endpoint = periodoId ? `/api/dte/resumen-ventas/${periodoId}` : '/api/dte/resumen-ventas';
+    return api.get<ResumenVentas[]>(`${endpoint}${queryString ? `?${queryString}` : ''}`);
+  },
+
+  // Detalle ventas endpoints
+  getDetalleVentas: (periodoId?: string, filters?: {
+    rutEmpresa?: string;
+    rutCliente?: string;
     tipoDte?: string;
     fechaInicio?: string;
     fechaFin?: string;
@@ -66,14 +196,14 @@ export const dteApi = {
     if (filters) {
       Object.entries(filters).forEach(([key, value]) => {
         if (value !== undefined) {
-          params.append(key, value.toString());
+          params.append(key, queryParamValue(key, value));
         }
       });
     }
     const queryString = params.toString();
-    const endpoint = periodoId ? `/api/dte/detalle-compras/${periodoId}` : '/api/dte/detalle-compras';
+    const endpoint = periodoId ? `/api/dte/detalle-ventas/${periodoId}` : '/api/dte/detalle-ventas';
     return api.get<{
-      data: DetalleCompras[];
+      data: DetalleVentas[];
       pagination: {
         total: number;
         page: number;
@@ -86,53 +216,121 @@ export const dteApi = {
   // Proveedor endpoints
   getAllProveedores: (search?: string) => {
     const params = new URLSearchParams();
-    if (search) params.append('search', search);
+    // "76.123.456-7" and "761234567" find the same proveedor
+    if (search) params.append('search', pareceRut(search) ? rutParaFiltro(search) : search);
     const queryString = params.toString();
     return api.get<Proveedor[]>(`/api/dte/proveedores${queryString ? `?${queryString}` : ''}`);
   },
+  getProveedorByRut: (rut: string) => api.get<Proveedor>(`/api/dte/proveedores/${rutPath(rut)}`),
 
   // Tipo DTE endpoints
   getAllTiposDte: () => api.get<TipoDte[]>('/api/dte/tipos-dte'),
 };
 
 // Notas API methods
+// Notas are addressed by the document they annotate, never by folio alone
+const notaPath = (key: NotaKey) =>
+  `/api/notas/${rutPath(key.rutProveedor)}/${key.tipoDte}/${encodeURIComponent(key.folio)}`;
+
 export const notasApi = {
-  // Get all notas
-  getAllNotas: () => api.get<Notas[]>('/api/notas'),
+  // Get all notas, optionally scoped to one empresa
+  getAllNotas: (rutEmpresa?: string) => {
+    const params = new URLSearchParams();
+    if (rutEmpresa) params.append('rutEmpresa', normalizarRut(rutEmpresa));
+    const queryString = params.toString();
+    return api.get<Notas[]>(`/api/notas${queryString ? `?${queryString}` : ''}`);
+  },
 
-  // Get nota by folio
-  getNotaByFolio: (folio: string) => api.get<Notas>(`/api/notas/${folio}`),
+  // Get the nota of one document
+  getNota: (key: NotaKey) => api.get<Notas>(notaPath(key)),
 
   // Create nota
-  createNota: (data: {
-    folio: string;
+  createNota: (data: NotaKey & {
     comentario?: string;
     contabilizado?: boolean;
     pagado?: boolean;
   }) => api.post<Notas>('/api/notas', data),
 
   // Update nota
-  updateNota: (folio: string, data: {
+  updateNota: (key: NotaKey, data: {
     comentario?: string;
     contabilizado?: boolean;
     pagado?: boolean;
-  }) => api.put<Notas>(`/api/notas/${folio}`, data),
+  }) => api.put<Notas>(notaPath(key), data),
+
+  // Single-field updates return the saved nota. Passing the updatedAt the
+  // client last saw makes the server answer 409 if someone else changed it since.
 
   // Update nota comment
-  updateNotaComment: (folio: string, comentario: string) =>
-    api.put(`/api/notas/${folio}/comment`, { comentario }),
+  updateNotaComment: (key: NotaKey, comentario: string, expectedUpdatedAt?: string) =>
+    api.put<Notas>(`${notaPath(key)}/comment`, { comentario, expectedUpdatedAt }),
 
   // Update nota contabilizado status
-  updateNotaContabilizado: (folio: string, contabilizado: boolean) =>
-    api.put(`/api/notas/${folio}/contabilizado`, { contabilizado }),
+  updateNotaContabilizado: (key: NotaKey, contabilizado: boolean, expectedUpdatedAt?: string) =>
+    api.put<Notas>(`${notaPath(key)}/contabilizado`, { contabilizado, expectedUpdatedAt }),
 
   // Update nota pagado status
-  updateNotaPagado: (folio: string, pagado: boolean) =>
-    api.put(`/api/notas/${folio}/pagado`, { pagado }),
+  updateNotaPagado: (key: NotaKey, pagado: boolean, expectedUpdatedAt?: string) =>
+    api.put<Notas>(`${notaPath(key)}/pagado`, { pagado, expectedUpdatedAt }),
 
   // Delete nota
-  deleteNota: (folio: string) =>
-    api.delete(`/api/notas/${folio}`),
+  deleteNota: (key: NotaKey) =>
+    api.delete(notaPath(key)),
+
+  // Apply one change to many notas; the response reports each item separately
+  bulkUpdateNotas: (data: NotasBulkUpdate) =>
+    api.post<NotasBulkResult>('/api/notas/bulk', data),
+
+  // Payments registered against an invoice
+  getPagos: (key: NotaKey) =>
+    api.get<Pago[]>(`${notaPath(key)}/pagos`),
+
+  // montoFactura is the invoice total net of its notas; the balance against
+  // it decides the pagado flag returned with the nota
+  createPago: (key: NotaKey, data: {
+    fecha: string;
+    monto: number;
+    metodo: MetodoPago;
+    referencia?: string;
+    montoFactura: number;
+  }) => api.post<PagoCambio>(`${notaPath(key)}/pagos`, data),
+
+  deletePago: (key: NotaKey, pagoId: number, montoFactura: number) => {
+    const params = new URLSearchParams();
+    params.append('montoFactura', montoFactura.toString());
+    return api.delete<PagoCambio>(`${notaPath(key)}/pagos/${pagoId}?${params.toString()}`);
+  },
+
+  // Audit log of one document's nota, newest first
+  getHistorial: (key: NotaKey) =>
+    api.get<NotaCambio[]>(`${notaPath(key)}/historial`),
+
+  // Audit log across every nota, filtered and paginated
+  getActividad: (query: NotaCambiosQuery = {}) => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.append(key, queryParamValue(key, value));
+      }
+    });
+    const queryString = params.toString();
+    return api.get<NotaCambiosPage>(`/api/notas/actividad${queryString ? `?${queryString}` : ''}`);
+  },
+
+  // Notas still keyed by folio alone, pending migration
+  getNotasLegacy: () =>
+    api.get<NotaLegacy[]>('/api/notas/legacy'),
+
+  // Attach a folio-only nota to the document it belongs to
+  migrateNotaLegacy: (notaId: number, key: NotaKey) =>
+    api.put<Notas>(`/api/notas/legacy/${notaId}`, key),
+};
+
+// Notification endpoints
+export const notificacionesApi = {
+  // new_record events emitted after the given timestamp, oldest first
+  getMissed: (since: string) =>
+    api.get<NewRecordNotification[]>(`/api/notifications/missed?since=${encodeURIComponent(since)}`),
 };
 
 // SII API methods
@@ -141,20 +339,30 @@ export const siiApi = {
   fetchAndStore: (year: string, month: string) =>
     api.post(`/api/sii/fetch-and-store-manual/${year}/${month}`),
 
+  // Start a tracked fetch job; returns immediately with the queued job
+  createFetchJob: (year: string, month: string) =>
+    api.post<SiiFetchJob>('/api/sii/jobs', { year, month }),
+
+  getFetchJob: (jobId: string) =>
+    api.get<SiiFetchJob>(`/api/sii/jobs/${encodeURIComponent(jobId)}`),
+
+  // Most recent jobs, newest first
+  getFetchJobs: () =>
+    api.get<SiiFetchJob[]>('/api/sii/jobs'),
+
   // Get API call counter
   getCallCount: () =>
-    api.get<{
-      message: string;
-      fetchSIIDataCount: number;
-      allCounters: Array<{
-        functionName: string;
-        callCount: number;
-        lastCalledAt: string;
-        createdAt: string;
-        updatedAt: string;
-      }>;
-      timestamp: string;
-    }>('/api/sii/call-count'),
+    api.get<SiiCallCount>('/api/sii/call-count'),
+
+  // Calls per function and day, oldest first
+  getCallHistory: (query: SiiCallHistoryQuery = {}) => {
+    const params = new URLSearchParams();
+    if (query.desde) params.append('desde', query.desde);
+    if (query.hasta) params.append('hasta', query.hasta);
+    if (query.functionName) params.append('functionName', query.functionName);
+    const queryString = params.toString();
+    return api.get<SiiCallHistoryEntry[]>(`/api/sii/call-history${queryString ? `?${queryString}` : ''}`);
+  },
 };
 
 export default api;
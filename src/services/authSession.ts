@@ -0,0 +1,28 @@
+import type { AuthResponse } from '../types/api';
+
+// localStorage key holding the tokens and the signed-in user
+const SESSION_STORAGE_KEY = 'consultas-sii:session';
+
+export type AuthSession = AuthResponse;
+
+// Kept outside Pinia so the axios interceptors can read it without a store
+export const authSession = {
+  get: (): AuthSession | null => {
+    try {
+      const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as AuthSession) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  set: (session: AuthSession) => {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  },
+
+  clear: () => {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  },
+
+  getAccessToken: () => authSession.get()?.accessToken ?? null
+};
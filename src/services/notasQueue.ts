@@ -0,0 +1,77 @@
+import type { NotaCampo, NotaKey } from '../types/api';
+
+// IndexedDB store holding nota edits made while the API was unreachable
+const DB_NAME = 'consultas-sii';
+const DB_VERSION = 1;
+const STORE_NAME = 'notas-queue';
+
+export interface NotaEditPendiente {
+  // Auto-incremented, so replaying by id keeps the order edits were made in
+  id?: number;
+  // User the edit was made by; only their session replays it
+  usuarioId: number | null;
+  key: NotaKey;
+  campo: NotaCampo;
+  value: string | boolean;
+  expectedUpdatedAt?: string;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const notasQueue = {
+  // Every pending edit, oldest first
+  getAll: () =>
+    withStore('readonly', store => store.getAll() as IDBRequest<NotaEditPendiente[]>),
+
+  add: async (edit: Omit<NotaEditPendiente, 'id'>): Promise<NotaEditPendiente> => {
+    const id = await withStore('readwrite', store => store.add(edit));
+    return { ...edit, id: id as number };
+  },
+
+  update: (edit: NotaEditPendiente) =>
+    withStore('readwrite', store => store.put(edit)),
+
+  remove: (id: number) =>
+    withStore('readwrite', store => store.delete(id)),
+
+  // Drop every edit one user left pending
+  removeUsuario: async (usuarioId: number): Promise<void> => {
+    const edits = await withStore('readonly', store => store.getAll() as IDBRequest<NotaEditPendiente[]>);
+    await Promise.all(edits
+      .filter(edit => edit.usuarioId === usuarioId)
+      .map(edit => withStore('readwrite', store => store.delete(edit.id!))));
+  }
+};
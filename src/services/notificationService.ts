@@ -1,56 +1,82 @@
 import { io, Socket } from 'socket.io-client';
 import { ref } from 'vue';
+import { notificacionesApi } from './api';
+import { authSession } from './authSession';
+import type { NewRecordNotification } from '../types/api';
 
-export interface NewRecordNotification {
-  folio: string;
-  rutProveedor: string;
-  razonSocial: string;
-  montoTotal: number;
-  tipoDTE: number;
-  tipoDTEString: string;
-  fechaEmision: string;
-  timestamp: string;
-}
+export type { NewRecordNotification };
+
+// replayed is true for records fetched after a reconnect rather than pushed live
+export type NewRecordListener = (data: NewRecordNotification, replayed: boolean) => void;
+// Called once per reconnect with every record replayed, after each went through the NewRecordListeners
+export type MissedRecordsListener = (missed: NewRecordNotification[]) => void;
+
+const SOCKET_URL = (
+  import.meta.env.VITE_SOCKET_URL || import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000'
+).replace(/\/+$/, '');
+
+// localStorage key holding the timestamp of the newest record seen, so a
+// reconnect (or the next visit) can ask the API for whatever was missed
+const CURSOR_STORAGE_KEY = 'consultas-sii:notificaciones-cursor';
 
 class NotificationService {
   private socket: Socket | null = null;
   private connected = ref(false);
+  private reconnecting = ref(false);
+  private listeners = new Set<NewRecordListener>();
+  private missedListeners = new Set<MissedRecordsListener>();
+  private lastSeen: string | null = localStorage.getItem(CURSOR_STORAGE_KEY);
 
   // Reactive state
   public readonly isConnected = this.connected;
+  public readonly isReconnecting = this.reconnecting;
 
   connect() {
-    if (this.socket?.connected) return;
-
-    const serverUrl = import.meta.env.DEV
-      ? 'http://localhost:3000'
-      : 'https://consultassii-api.onrender.com/';
+    // An existing socket reconnects on its own; a second one would duplicate events
+    if (this.socket) return;
 
-    this.socket = io(serverUrl, {
+    this.socket = io(SOCKET_URL, {
       transports: ['websocket', 'polling'],
       timeout: 10000,
-      forceNew: true
+      // Read on every (re)connect so a refreshed token is picked up
+      auth: (cb) => cb({ token: authSession.getAccessToken() }),
+      reconnection: true,
+      reconnectionAttempts: Infinity,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 30000,
+      randomizationFactor: 0.5
     });
 
     this.socket.on('connect', () => {
       console.log('Connected to notification server');
       this.connected.value = true;
+      this.reconnecting.value = false;
+      this.fetchMissed();
     });
 
-    this.socket.on('disconnect', () => {
-      console.log('Disconnected from notification server');
+    this.socket.on('disconnect', (reason) => {
+      console.log('Disconnected from notification server:', reason);
       this.connected.value = false;
+      // Server-side disconnects are not retried automatically by socket.io
+      if (reason === 'io server disconnect') {
+        this.socket?.connect();
+      }
     });
 
     this.socket.on('new_record', (data: NewRecordNotification) => {
       console.log('New record notification:', data);
-      this.showBrowserNotification(data);
+      this.dispatch(data, false);
     });
 
     this.socket.on('connect_error', (error) => {
       console.error('Connection error:', error);
       this.connected.value = false;
     });
+
+    this.socket.io.on('reconnect_attempt', (attempt) => {
+      console.log(`Reconnecting to notification server (attempt ${attempt})...`);
+      this.reconnecting.value = true;
+    });
   }
 
   disconnect() {
@@ -58,10 +84,104 @@ class NotificationService {
       this.socket.disconnect();
       this.socket = null;
       this.connected.value = false;
+      this.reconnecting.value = false;
     }
   }
 
-  private async showBrowserNotification(data: NewRecordNotification) {
+  // Forget the cursor when the session ends; the next user starts from their login
+  clearCursor() {
+    this.lastSeen = null;
+    localStorage.removeItem(CURSOR_STORAGE_KEY);
+  }
+
+  // Subscribe to new_record events; returns a function that unsubscribes.
+  // Listeners decide how each record is surfaced (see notification rules).
+  onNewRecord(listener: NewRecordListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Subscribe to the batch of records replayed after a reconnect, e.g. to
+  // summarize them; returns a function that unsubscribes
+  onMissedRecords(listener: MissedRecordsListener): () => void {
+    this.missedListeners.add(listener);
+    return () => this.missedListeners.delete(listener);
+  }
+
+  // Hand a record to the listeners and move the cursor past it
+  private dispatch(data: NewRecordNotification, replayed: boolean) {
+    this.listeners.forEach(listener => listener(data, replayed));
+    this.advanceCursor(data.timestamp);
+  }
+
+  private advanceCursor(timestamp: string) {
+    if (this.lastSeen && new Date(timestamp) <= new Date(this.lastSeen)) return;
+    this.lastSeen = timestamp;
+    localStorage.setItem(CURSOR_STORAGE_KEY, timestamp);
+  }
+
+  // Replay records created while the socket was down
+  private async fetchMissed() {
+    // First connection on this browser: start counting from now
+    if (!this.lastSeen) {
+      this.advanceCursor(new Date().toISOString());
+      return;
+    }
+
+    try {
+      const response = await notificacionesApi.getMissed(this.lastSeen);
+      const missed = response.data;
+      if (missed.length === 0) return;
+
+      console.log(`Replaying ${missed.length} missed notifications`);
+      missed.forEach(data => this.dispatch(data, true));
+      this.missedListeners.forEach(listener => listener(missed));
+    } catch (error) {
+      // The cursor stays put, so the next reconnect asks again
+      console.error('Error fetching missed notifications:', error);
+    }
+  }
+
+  // One summary instead of a popup per record missed
+  showMissedSummary(count: number) {
+    if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+    const notification = new Notification('Documentos nuevos', {
+      body: count === 1
+        ? 'Se registró 1 documento mientras estabas desconectado'
+        : `Se registraron ${count} documentos mientras estabas desconectado`,
+      icon: '/favicon.ico',
+      tag: 'sii-missed'
+    });
+    setTimeout(() => notification.close(), 8000);
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  }
+
+  // Short two-tone chime, generated so no audio asset is needed
+  playSound() {
+    try {
+      const context = new AudioContext();
+      [880, 660].forEach((frequency, index) => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        const start = context.currentTime + index * 0.18;
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.2, start);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + 0.16);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(start);
+        oscillator.stop(start + 0.16);
+      });
+      setTimeout(() => context.close(), 600);
+    } catch (error) {
+      console.error('Error playing notification sound:', error);
+    }
+  }
+
+  async showBrowserNotification(data: NewRecordNotification) {
     console.log('Attempting to show browser notification...', {
       permission: Notification.permission,
       data
@@ -139,10 +259,10 @@ class NotificationService {
     return permission === 'granted';
   }
 
-  // Test notification function for debugging
-  async testNotification() {
-    console.log('Testing notification...');
-    const testData: NewRecordNotification = {
+  // Sample record for the test button; it never reaches the listeners, so it
+  // stays out of the stored notification list
+  testRecord(): NewRecordNotification {
+    return {
       folio: '12345',
       rutProveedor: '12345678-9',
       razonSocial: 'Empresa de Prueba',
@@ -152,8 +272,6 @@ class NotificationService {
       fechaEmision: new Date().toISOString(),
       timestamp: new Date().toISOString()
     };
-
-    await this.showBrowserNotification(testData);
   }
 }
 
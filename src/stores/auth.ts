@@ -0,0 +1,108 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { authApi } from '../services/api'
+import { authSession } from '../services/authSession'
+import { notificationService } from '../services/notificationService'
+import { puede, motivoSinPermiso, type Permiso } from '../utils/permisos'
+import type { LoginRequest, Usuario } from '../types/api'
+import { useNotasStore } from './notas'
+import { usePagosStore } from './pagos'
+import { useFormsStore } from './dte'
+import { useSiiStore } from './sii'
+import { useNotificacionesStore } from './notificaciones'
+import { useReglasNotificacionStore } from './reglasNotificacion'
+import { useVistasStore } from './vistas'
+
+export const useAuthStore = defineStore('auth', () => {
+  // State
+  const usuario = ref<Usuario | null>(authSession.get()?.usuario ?? null)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Computed
+  const isAuthenticated = computed(() => usuario.value !== null)
+  const rol = computed(() => usuario.value?.rol ?? null)
+
+  const can = (permiso: Permiso): boolean => puede(rol.value, permiso)
+
+  // Why the current user can't do something, for tooltips and errors
+  const denyReason = (permiso: Permiso): string => motivoSinPermiso(rol.value, permiso)
+
+  // Actions
+  const login = async (credentials: LoginRequest): Promise<boolean> => {
+    loading.value = true
+    error.value = null
+    try {
+      const response = await authApi.login(credentials)
+      authSession.set(response.data)
+      usuario.value = response.data.usuario
+      // Resume this user's nota edits left queued by an earlier session
+      useNotasStore().loadQueue()
+      return true
+    } catch (err: unknown) {
+      const status = (err as { response?: { status?: number } }).response?.status
+      error.value = status === 401
+        ? 'Correo o contraseña incorrectos'
+        : (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error al iniciar sesión'
+      console.error('Error logging in:', err)
+      return false
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Drop the local session without calling the API (e.g. after it expired),
+  // with everything loaded under it, so the next user of this browser starts
+  // clean. The user's queued nota edits are kept for their next login unless
+  // `descartarPendientes`.
+  const clearSession = async (descartarPendientes = false): Promise<void> => {
+    const usuarioId = usuario.value?.usuarioId ?? null
+    authSession.clear()
+    usuario.value = null
+    notificationService.disconnect()
+    notificationService.clearCursor()
+    useNotificacionesStore().clearNotificaciones()
+    useReglasNotificacionStore().clearReglas()
+    useVistasStore().clearVistas()
+    usePagosStore().clearPagos()
+    useFormsStore().clearSession()
+    const siiStore = useSiiStore()
+    siiStore.stopPolling()
+    siiStore.$reset()
+    await useNotasStore().clearSession(descartarPendientes ? usuarioId : null)
+  }
+
+  // Logging out on purpose discards the user's unsynced nota edits; the
+  // caller confirms that first
+  const logout = async (): Promise<void> => {
+    const session = authSession.get()
+    try {
+      if (session) await authApi.logout(session.refreshToken)
+    } catch (err) {
+      // The local session is cleared regardless
+      console.error('Error logging out:', err)
+    } finally {
+      await clearSession(true)
+    }
+  }
+
+  return {
+    // State
+    usuario,
+    loading,
+    error,
+
+    // Computed
+    isAuthenticated,
+    rol,
+
+    // Getters
+    can,
+    denyReason,
+
+    // Actions
+    login,
+    logout,
+    clearSession
+  }
+})
@@ -1,30 +1,110 @@
 import { defineStore } from 'pinia'
 import { ref } from 'vue'
 import { dteApi } from '../services/api'
-import type { FormResponse, DetalleCompra, ResumenCompra } from '../types/api'
+import { mismoRut, normalizarRut } from '../utils/rut'
+import { parseClp, parseClpOpcional, sumClp, type Clp } from '../utils/money'
+import { TIPO_DTE_NOTA_CREDITO, TIPO_DTE_NOTA_DEBITO } from '../utils/f29'
+import { aplicarNotasAjuste, esNotaAjuste, folioFacturaReferida } from '../utils/notasAjuste'
+import type {
+  FormResponse,
+  DetalleCompra,
+  ResumenCompra,
+  DetalleVenta,
+  ResumenVenta,
+  PeriodoCompras,
+  Pagination,
+  DetalleComprasPage,
+  DetalleComprasQuery
+} from '../types/api'
 import type {
   Empresa,
   Periodo,
   DetalleCompras,
   ResumenCompras,
+  DetalleVentas,
+  ResumenVentas,
   TipoDte,
   Proveedor
 } from '../types/api'
 
+// localStorage key holding the RUT of the last selected empresa
+const EMPRESA_STORAGE_KEY = 'consultas-sii:rutEmpresa'
+
+// Page size for the detalle compras table
+export const DEFAULT_PAGE_SIZE = 50
+
+// Page size used when every row is needed at once (exports, multi-period views)
+const FETCH_ALL_LIMIT = 10000
+
+/**
+ * Every detalle compras row matching `query`, requested page by page so a
+ * large result isn't cut off at the page size. Throws if the rows fetched
+ * fall short of the total the first page reported, since callers sum them.
+ */
+const fetchDetalleComprasCompleto = async (
+  periodoId: string | undefined,
+  query: DetalleComprasQuery
+): Promise<DetalleCompras[]> => {
+  const rows: DetalleCompras[] = []
+  let total = 0
+  for (let page = 1; ; page++) {
+    const response = await dteApi.getDetalleCompras(periodoId, { ...query, page, limit: FETCH_ALL_LIMIT })
+    if (page === 1) total = response.data.pagination.total
+    rows.push(...response.data.data)
+    if (response.data.data.length === 0 || page >= response.data.pagination.totalPages) break
+  }
+  if (rows.length < total) {
+    throw new Error(`Solo se pudieron obtener ${rows.length} de ${total} documentos; intenta nuevamente`)
+  }
+  return rows
+}
+
+// Legacy DetalleCompra keys whose backend column has a different name
+const SORT_FIELD_MAP: Partial<Record<keyof DetalleCompra, string>> = {
+  tipoDTEString: 'tipoDte',
+  tipoDTE: 'tipoDte'
+}
+
 export const useFormsStore = defineStore('forms', () => {
   const loading = ref(false)
   const error = ref<string | null>(null)
+  // Ventas load apart from compras; a failure there leaves compras usable
+  const ventasError = ref<string | null>(null)
   const data = ref<FormResponse | null>(null)
 
   // New state for backend data
   const empresas = ref<Empresa[]>([])
   const selectedEmpresa = ref<Empresa | null>(null)
+  const selectedRutEmpresa = ref<string | null>(localStorage.getItem(EMPRESA_STORAGE_KEY))
   const periodos = ref<Periodo[]>([])
   const selectedPeriodo = ref<Periodo | null>(null)
   const resumenCompras = ref<ResumenCompras[]>([])
   const detalleCompras = ref<DetalleCompras[]>([])
+  const resumenVentas = ref<ResumenVentas[]>([])
+  const detalleVentas = ref<DetalleVentas[]>([])
+  const rangoPeriodos = ref<PeriodoCompras[]>([])
+
+  // Server-side query state for the detalle compras table
+  const loadingDetalle = ref(false)
+  const detalleQuery = ref<DetalleComprasQuery>({
+    page: 1,
+    limit: DEFAULT_PAGE_SIZE,
+    sortField: 'fechaEmision',
+    sortDirection: 'desc'
+  })
+  const detallePagination = ref<Pagination | null>(null)
+  const detalleTotales = ref<{
+    totalDocumentos: number
+    montoNeto: Clp
+    ivaTotal: Clp
+    montoTotal: Clp
+  } | null>(null)
   const tiposDte = ref<TipoDte[]>([])
   const proveedores = ref<Proveedor[]>([])
+  // Notas de crédito/débito of the selected empresa across all periodos, for
+  // linking them to the facturas they modify
+  const notasAjuste = ref<DetalleCompra[]>([])
+  const notasAjusteRut = ref<string | null>(null)
 
   // Date selection state - Initialize with current date
   const now = new Date()
@@ -38,10 +118,10 @@ export const useFormsStore = defineStore('forms', () => {
 
     loading.value = true
     error.value = null
+    ventasError.value = null
 
     try {
-      // For now, we'll use a default empresa RUT and try to get data from the new backend
-      const rutEmpresa = '65145564-2'
+      const rutEmpresa = await resolveRutEmpresa()
       const anio = actualYear
       const mes = actualMonth
 
@@ -57,14 +137,36 @@ export const useFormsStore = defineStore('forms', () => {
         selectedPeriodo.value = periodosResponse.data[0]
         const periodoId = selectedPeriodo.value.periodoId.toString()
 
+        // Ventas are requested alongside compras but settle on their own, so a
+        // ventas failure doesn't take the compras views down with it
+        const ventasRequest = Promise.allSettled([
+          Promise.all([dteApi.getResumenVentas(periodoId), dteApi.getDetalleVentas(periodoId)])
+        ])
+
         // Get resumen and detalle compras for this periodo
         const [resumenResponse, detalleResponse] = await Promise.all([
           dteApi.getResumenCompras(periodoId),
-          dteApi.getDetalleCompras(periodoId)
+          dteApi.getDetalleCompras(periodoId, { ...detalleQuery.value, page: 1 }),
+          // Refreshed with every load, since a new SII fetch may bring new notas
+          loadNotasAjuste(true)
         ])
 
         resumenCompras.value = resumenResponse.data
         detalleCompras.value = detalleResponse.data.data
+        applyDetallePage(detalleResponse.data)
+
+        const [ventas] = await ventasRequest
+        if (ventas.status === 'fulfilled') {
+          const [resumenVentasResponse, detalleVentasResponse] = ventas.value
+          resumenVentas.value = resumenVentasResponse.data
+          detalleVentas.value = detalleVentasResponse.data.data
+        } else {
+          console.error('Error loading ventas:', ventas.reason)
+          ventasError.value = (ventas.reason as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+                              (ventas.reason as { message?: string }).message || 'Error al cargar las ventas'
+          resumenVentas.value = []
+          detalleVentas.value = []
+        }
 
         // Transform backend data to match the legacy format expected by the frontend
         const transformedData: FormResponse = {
@@ -78,11 +180,11 @@ export const useFormsStore = defineStore('forms', () => {
           },
           compras: {
             resumenes: resumenCompras.value.map(transformResumenCompras),
-            detalleCompras: detalleCompras.value.map(transformDetalleCompras)
+            detalleCompras: aplicarNotasAjuste(detalleCompras.value.map(transformDetalleCompras), notasAjuste.value)
           },
           ventas: {
-            resumenes: [],
-            detalleVentas: []
+            resumenes: resumenVentas.value.map(transformResumenVentas),
+            detalleVentas: detalleVentas.value.map(transformDetalleVentas)
           }
         }
 
@@ -101,6 +203,148 @@ export const useFormsStore = defineStore('forms', () => {
     }
   }
 
+  // Store the pagination and server totals of a detalle compras response
+  const applyDetallePage = (page: DetalleComprasPage) => {
+    detallePagination.value = page.pagination
+    detalleQuery.value.page = page.pagination.page
+    detalleTotales.value = page.totales
+      ? {
+          totalDocumentos: page.totales.totalDocumentos,
+          montoNeto: parseClp(page.totales.montoNeto),
+          ivaTotal: parseClp(page.totales.montoIvaRecuperable),
+          montoTotal: parseClp(page.totales.montoTotal)
+        }
+      : null
+  }
+
+  // Update the detalle compras query without fetching, e.g. before the first load.
+  // Keys present in `query` replace the current ones; pass undefined to clear a filter.
+  const setDetalleQuery = (query: DetalleComprasQuery) => {
+    detalleQuery.value = { ...detalleQuery.value, ...query }
+    if (query.sortField) {
+      detalleQuery.value.sortField = SORT_FIELD_MAP[query.sortField as keyof DetalleCompra] || query.sortField
+    }
+  }
+
+  // Re-query the current periodo's detalle compras with new filters, sort or page
+  const queryDetalleCompras = async (query: DetalleComprasQuery = {}) => {
+    setDetalleQuery(query)
+    if (!selectedPeriodo.value || !data.value) return
+
+    loadingDetalle.value = true
+    try {
+      const response = await dteApi.getDetalleCompras(
+        selectedPeriodo.value.periodoId.toString(),
+        detalleQuery.value
+      )
+      detalleCompras.value = response.data.data
+      data.value.compras.detalleCompras = await vincularNotas(response.data.data.map(transformDetalleCompras))
+      applyDetallePage(response.data)
+      return response.data
+    } catch (err: unknown) {
+      error.value = (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+                   (err as { message?: string }).message || 'Error loading detalle de compras'
+      throw err
+    } finally {
+      loadingDetalle.value = false
+    }
+  }
+
+  // Every row matching the current filters and sort, for exports
+  const fetchAllDetalleCompras = async (): Promise<DetalleCompra[]> => {
+    if (!selectedPeriodo.value) return []
+    const rows = await fetchDetalleComprasCompleto(selectedPeriodo.value.periodoId.toString(), detalleQuery.value)
+    return rows.map(transformDetalleCompras)
+  }
+
+  // Every row of the selected periodo regardless of the table filters, for
+  // checking the detalle against the resumen
+  const fetchDetallePeriodo = async (): Promise<DetalleCompra[]> => {
+    if (!selectedPeriodo.value) return []
+    const response = await dteApi.getDetalleCompras(
+      selectedPeriodo.value.periodoId.toString(),
+      { page: 1, limit: FETCH_ALL_LIMIT }
+    )
+    if (response.data.pagination.total > response.data.data.length) {
+      throw new Error(`El período tiene ${response.data.pagination.total} documentos; solo se pueden revisar ${FETCH_ALL_LIMIT} a la vez`)
+    }
+    return response.data.data.map(transformDetalleCompras)
+  }
+
+  // Returns the selected empresa RUT, falling back to the first registered empresa
+  const resolveRutEmpresa = async (): Promise<string> => {
+    if (selectedRutEmpresa.value) return selectedRutEmpresa.value
+
+    if (empresas.value.length === 0) {
+      const response = await dteApi.getAllEmpresas()
+      empresas.value = response.data
+    }
+
+    const [firstEmpresa] = empresas.value
+    if (!firstEmpresa) {
+      throw new Error('No hay empresas registradas')
+    }
+
+    setEmpresa(firstEmpresa.rutEmpresa)
+    return firstEmpresa.rutEmpresa
+  }
+
+  // Load compras for every periodo between two months (inclusive), oldest first
+  const loadRangoPeriodos = async (desde: { anio: string; mes: string }, hasta: { anio: string; mes: string }) => {
+    const inicio = parseInt(desde.anio) * 12 + parseInt(desde.mes)
+    const fin = parseInt(hasta.anio) * 12 + parseInt(hasta.mes)
+    if (inicio > fin) {
+      throw new Error('El período inicial debe ser anterior al período final')
+    }
+
+    loading.value = true
+    error.value = null
+
+    try {
+      const rutEmpresa = await resolveRutEmpresa()
+
+      // Periodos are requested per year without mes, then narrowed to the range
+      const anios: string[] = []
+      for (let anio = parseInt(desde.anio); anio <= parseInt(hasta.anio); anio++) {
+        anios.push(anio.toString())
+      }
+      const periodosResponses = await Promise.all(
+        anios.map(anio => dteApi.getPeriodosByEmpresa(rutEmpresa, anio))
+      )
+      const periodosEnRango = periodosResponses
+        .flatMap(response => response.data)
+        .filter(p => {
+          const indice = p.anio * 12 + p.mes
+          return indice >= inicio && indice <= fin
+        })
+        .sort((a, b) => (a.anio * 12 + a.mes) - (b.anio * 12 + b.mes))
+
+      const resultados = await Promise.all(periodosEnRango.map(async (periodo) => {
+        const periodoId = periodo.periodoId.toString()
+        const [resumenResponse, detalle] = await Promise.all([
+          dteApi.getResumenCompras(periodoId),
+          fetchDetalleComprasCompleto(periodoId, {})
+        ])
+        return {
+          periodo,
+          nombreMes: getMonthName(periodo.mes),
+          resumenes: resumenResponse.data.map(transformResumenCompras),
+          detalleCompras: detalle.map(transformDetalleCompras)
+        }
+      }))
+
+      rangoPeriodos.value = resultados
+      return resultados
+    } catch (err: unknown) {
+      const errorMessage = (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+                           (err as { message?: string }).message || 'Error loading rango de períodos'
+      error.value = errorMessage
+      throw new Error(errorMessage)
+    } finally {
+      loading.value = false
+    }
+  }
+
   // New methods for direct backend data access
   const loadEmpresas = async () => {
     try {
@@ -117,10 +361,10 @@ export const useFormsStore = defineStore('forms', () => {
     }
   }
 
-  const loadPeriodosByEmpresa = async (rutEmpresa: string, anio?: string, mes?: string) => {
+  const loadPeriodosByEmpresa = async (rutEmpresa?: string, anio?: string, mes?: string) => {
     try {
       loading.value = true
-      const response = await dteApi.getPeriodosByEmpresa(rutEmpresa, anio, mes)
+      const response = await dteApi.getPeriodosByEmpresa(rutEmpresa || await resolveRutEmpresa(), anio, mes)
       periodos.value = response.data
       return response.data
     } catch (err: unknown) {
@@ -135,7 +379,9 @@ export const useFormsStore = defineStore('forms', () => {
   const loadResumenCompras = async (periodoId?: string) => {
     try {
       loading.value = true
-      const response = await dteApi.getResumenCompras(periodoId)
+      // Without a periodo the query is scoped to the selected empresa
+      const rutEmpresa = periodoId ? undefined : await resolveRutEmpresa()
+      const response = await dteApi.getResumenCompras(periodoId, rutEmpresa)
       resumenCompras.value = response.data
       return response.data
     } catch (err: unknown) {
@@ -147,10 +393,12 @@ export const useFormsStore = defineStore('forms', () => {
     }
   }
 
-  const loadDetalleCompras = async (periodoId?: string, filters?: Record<string, unknown>) => {
+  const loadDetalleCompras = async (periodoId?: string, filters?: DetalleComprasQuery) => {
     try {
       loading.value = true
-      const response = await dteApi.getDetalleCompras(periodoId, filters)
+      // Without a periodo the query is scoped to the selected empresa
+      const rutEmpresa = periodoId ? undefined : await resolveRutEmpresa()
+      const response = await dteApi.getDetalleCompras(periodoId, { rutEmpresa, ...filters })
       detalleCompras.value = response.data.data
       return response.data
     } catch (err: unknown) {
@@ -162,6 +410,40 @@ export const useFormsStore = defineStore('forms', () => {
     }
   }
 
+  const loadResumenVentas = async (periodoId?: string) => {
+    try {
+      loading.value = true
+      // Without a periodo the query is scoped to the selected empresa
+      const rutEmpresa = periodoId ? undefined : await resolveRutEmpresa()
+      const response = await dteApi.getResumenVentas(periodoId, rutEmpresa)
+      resumenVentas.value = response.data
+      return response.data
+    } catch (err: unknown) {
+      error.value = (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+                   (err as { message?: string }).message || 'Error loading resumen de ventas'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  const loadDetalleVentas = async (periodoId?: string, filters?: Record<string, unknown>) => {
+    try {
+      loading.value = true
+      // Without a periodo the query is scoped to the selected empresa
+      const rutEmpresa = periodoId ? undefined : await resolveRutEmpresa()
+      const response = await dteApi.getDetalleVentas(periodoId, { rutEmpresa, ...filters })
+      detalleVentas.value = response.data.data
+      return response.data
+    } catch (err: unknown) {
+      error.value = (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+                   (err as { message?: string }).message || 'Error loading detalle de ventas'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
   const loadTiposDte = async () => {
     try {
       const response = await dteApi.getAllTiposDte()
@@ -186,6 +468,125 @@ export const useFormsStore = defineStore('forms', () => {
     }
   }
 
+  // Drop data that belongs to the selected empresa
+  const clearEmpresaData = () => {
+    data.value = null
+    periodos.value = []
+    selectedPeriodo.value = null
+    resumenCompras.value = []
+    detalleCompras.value = []
+    resumenVentas.value = []
+    detalleVentas.value = []
+    ventasError.value = null
+    rangoPeriodos.value = []
+    detallePagination.value = null
+    detalleTotales.value = null
+    detalleQuery.value.page = 1
+    notasAjuste.value = []
+    notasAjusteRut.value = null
+  }
+
+  // Select the empresa every query is scoped to and persist it across reloads.
+  // Any spelling of the RUT is accepted; the one the API uses is kept.
+  const setEmpresa = (rut: string) => {
+    const empresa = empresas.value.find(e => mismoRut(e.rutEmpresa, rut))
+    const rutEmpresa = empresa?.rutEmpresa ?? normalizarRut(rut)
+    if (selectedRutEmpresa.value !== rutEmpresa) {
+      clearEmpresaData()
+    }
+
+    selectedRutEmpresa.value = rutEmpresa
+    selectedEmpresa.value = empresa || null
+    localStorage.setItem(EMPRESA_STORAGE_KEY, rutEmpresa)
+  }
+
+  // Forget everything loaded under a session that ended, including the
+  // empresa selection, which the next user may not have access to
+  const clearSession = () => {
+    clearEmpresaData()
+    empresas.value = []
+    selectedEmpresa.value = null
+    selectedRutEmpresa.value = null
+    proveedores.value = []
+    error.value = null
+    localStorage.removeItem(EMPRESA_STORAGE_KEY)
+  }
+
+  // Every compra from one proveedor for the selected empresa, across all periodos
+  const loadComprasProveedor = async (rutProveedor: string): Promise<DetalleCompra[]> => {
+    try {
+      const rutEmpresa = await resolveRutEmpresa()
+      const rows = await fetchDetalleComprasCompleto(undefined, {
+        rutEmpresa,
+        rutProveedor,
+        sortField: 'fechaEmision',
+        sortDirection: 'desc'
+      })
+      return await vincularNotas(rows.map(transformDetalleCompras))
+    } catch (err: unknown) {
+      error.value = (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+                   (err as { message?: string }).message || 'Error loading compras del proveedor'
+      throw err
+    }
+  }
+
+  // Every document of the company not yet marked as pagado, across all periods.
+  // Notas are linked from the empresa-wide list, since a pagado nota still
+  // adjusts an open factura.
+  const loadComprasImpagas = async (): Promise<DetalleCompra[]> => {
+    try {
+      const rutEmpresa = await resolveRutEmpresa()
+      const rows = await fetchDetalleComprasCompleto(undefined, {
+        rutEmpresa,
+        pagado: false,
+        sortField: 'fechaEmision',
+        sortDirection: 'asc'
+      })
+      return await vincularNotas(rows.map(transformDetalleCompras))
+    } catch (err: unknown) {
+      error.value = (err as { response?: { data?: { error?: string } }; message?: string }).response?.data?.error ||
+                   (err as { message?: string }).message || 'Error loading compras impagas'
+      throw err
+    }
+  }
+
+  // Load every nota de crédito and débito of the empresa, once per empresa
+  // unless forced. Throws rather than leave balances without some of their
+  // notas.
+  const loadNotasAjuste = async (force = false) => {
+    const rutEmpresa = await resolveRutEmpresa()
+    if (!force && notasAjusteRut.value === rutEmpresa) return
+    const porTipo = await Promise.all(
+      [TIPO_DTE_NOTA_CREDITO, TIPO_DTE_NOTA_DEBITO].map(tipoDte =>
+        fetchDetalleComprasCompleto(undefined, { rutEmpresa, tipoDte: tipoDte.toString() })
+      )
+    )
+    notasAjuste.value = porTipo.flat().map(transformDetalleCompras)
+    notasAjusteRut.value = rutEmpresa
+  }
+
+  // Link the empresa's notas to the facturas among `compras`
+  const vincularNotas = async (compras: DetalleCompra[]): Promise<DetalleCompra[]> => {
+    await loadNotasAjuste()
+    return aplicarNotasAjuste(compras, notasAjuste.value)
+  }
+
+  // The factura a nota modifies, looked up across every periodo of the empresa
+  const findFacturaDeNota = async (nota: DetalleCompra): Promise<DetalleCompra | null> => {
+    const folio = folioFacturaReferida(nota)
+    if (folio === null) return null
+    const rutEmpresa = await resolveRutEmpresa()
+    const rows = await fetchDetalleComprasCompleto(undefined, {
+      rutEmpresa,
+      rutProveedor: nota.rutProveedor,
+      search: folio.toString()
+    })
+    const factura = rows
+      .map(transformDetalleCompras)
+      .find(compra => compra.folio === folio && !esNotaAjuste(compra.tipoDTE))
+    return factura ? (await vincularNotas([factura]))[0]! : null
+  }
+
   // Methods to update date selection
   const setMonth = (month: string) => {
     currentMonth.value = month
@@ -218,12 +619,13 @@ export const useFormsStore = defineStore('forms', () => {
       tipoDte: resumen.tipoDte,
       tipoDteString: resumen.tipoDteInfo?.descripcion || `Tipo ${resumen.tipoDte}`,
       totalDocumentos: resumen.totalDocumentos,
-      montoExento: parseFloat(resumen.montoExento),
-      montoNeto: parseFloat(resumen.montoNeto),
-      ivaRecuperable: parseFloat(resumen.montoIvaRecuperable),
-      ivaUsoComun: 0, // This field might need mapping from backend
-      ivaNoRecuperable: parseFloat(resumen.montoIvaNoRecuperable),
-      montoTotal: parseFloat(resumen.montoTotal),
+      montoExento: parseClp(resumen.montoExento),
+      montoNeto: parseClp(resumen.montoNeto),
+      ivaRecuperable: parseClp(resumen.montoIvaRecuperable),
+      ivaUsoComun: parseClp(resumen.ivaUsoComun),
+      ivaActivoFijo: parseClp(resumen.ivaActivoFijo),
+      ivaNoRecuperable: parseClp(resumen.montoIvaNoRecuperable),
+      montoTotal: parseClp(resumen.montoTotal),
       estado: resumen.estado
     }
   }
@@ -239,20 +641,20 @@ export const useFormsStore = defineStore('forms', () => {
       fechaEmision: detalle.fechaEmision,
       fechaRecepcion: detalle.fechaRecepcion,
       acuseRecibo: detalle.acuseRecibo || null,
-      montoExento: parseFloat(detalle.montoExento),
-      montoNeto: parseFloat(detalle.montoNeto),
-      montoIvaRecuperable: parseFloat(detalle.montoIvaRecuperable),
-      montoIvaNoRecuperable: parseFloat(detalle.montoIvaNoRecuperable),
+      montoExento: parseClp(detalle.montoExento),
+      montoNeto: parseClp(detalle.montoNeto),
+      montoIvaRecuperable: parseClp(detalle.montoIvaRecuperable),
+      montoIvaNoRecuperable: parseClp(detalle.montoIvaNoRecuperable),
       codigoIvaNoRecuperable: detalle.codigoIvaNoRecuperable || 0,
-      montoTotal: parseFloat(detalle.montoTotal),
-      montoNetoActivoFijo: parseFloat(detalle.montoNetoActivoFijo),
-      ivaActivoFijo: parseFloat(detalle.ivaActivoFijo),
-      ivaUsoComun: parseFloat(detalle.ivaUsoComun),
-      impuestoSinDerechoCredito: parseFloat(detalle.impuestoSinDerechoCredito),
-      ivaNoRetenido: parseFloat(detalle.ivaNoRetenido),
-      tabacosPuros: detalle.tabacosPuros ? parseFloat(detalle.tabacosPuros) : null,
-      tabacosCigarrillos: detalle.tabacosCigarrillos ? parseFloat(detalle.tabacosCigarrillos) : null,
-      tabacosElaborados: detalle.tabacosElaborados ? parseFloat(detalle.tabacosElaborados) : null,
+      montoTotal: parseClp(detalle.montoTotal),
+      montoNetoActivoFijo: parseClp(detalle.montoNetoActivoFijo),
+      ivaActivoFijo: parseClp(detalle.ivaActivoFijo),
+      ivaUsoComun: parseClp(detalle.ivaUsoComun),
+      impuestoSinDerechoCredito: parseClp(detalle.impuestoSinDerechoCredito),
+      ivaNoRetenido: parseClp(detalle.ivaNoRetenido),
+      tabacosPuros: parseClpOpcional(detalle.tabacosPuros),
+      tabacosCigarrillos: parseClpOpcional(detalle.tabacosCigarrillos),
+      tabacosElaborados: parseClpOpcional(detalle.tabacosElaborados),
       nceNdeFacturaCompra: parseFloat(detalle.nceNdeFacturaCompra),
       valorOtroImpuesto: detalle.valorOtroImpuesto || '',
       tasaOtroImpuesto: detalle.tasaOtroImpuesto || '',
@@ -260,6 +662,8 @@ export const useFormsStore = defineStore('forms', () => {
       comentario: detalle.nota?.comentario || undefined,
       contabilizado: detalle.nota?.contabilizado || false,
       pagado: detalle.nota?.pagado || false,
+      montoPagado: sumClp((detalle.nota?.pagos || []).map(pago => parseClp(pago.monto))),
+      notaUpdatedAt: detalle.nota?.updatedAt,
       estado: detalle.estado,
       fechaAcuse: detalle.fechaAcuse || null,
       otrosImpuestos: detalle.otrosImpuestos?.map(oi => ({
@@ -270,21 +674,70 @@ export const useFormsStore = defineStore('forms', () => {
     }
   }
 
+  const transformResumenVentas = (resumen: ResumenVentas): ResumenVenta => {
+    return {
+      tipoDte: resumen.tipoDte,
+      tipoDteString: resumen.tipoDteInfo?.descripcion || `Tipo ${resumen.tipoDte}`,
+      totalDocumentos: resumen.totalDocumentos,
+      montoExento: parseClp(resumen.montoExento),
+      montoNeto: parseClp(resumen.montoNeto),
+      montoIva: parseClp(resumen.montoIva),
+      montoTotal: parseClp(resumen.montoTotal),
+      estado: resumen.estado
+    }
+  }
+
+  const transformDetalleVentas = (detalle: DetalleVentas): DetalleVenta => {
+    return {
+      tipoDTEString: detalle.tipoDteInfo?.descripcion || `Tipo ${detalle.tipoDte}`,
+      tipoDTE: detalle.tipoDte,
+      tipoVenta: detalle.tipoVenta,
+      rutCliente: detalle.rutCliente,
+      razonSocial: detalle.cliente?.razonSocial || 'Sin razón social',
+      folio: parseInt(detalle.folio),
+      fechaEmision: detalle.fechaEmision,
+      fechaRecepcion: detalle.fechaRecepcion,
+      fechaAcuseRecibo: detalle.fechaAcuseRecibo || null,
+      fechaReclamo: detalle.fechaReclamo || null,
+      montoExento: parseClp(detalle.montoExento),
+      montoNeto: parseClp(detalle.montoNeto),
+      montoIva: parseClp(detalle.montoIva),
+      montoTotal: parseClp(detalle.montoTotal),
+      ivaRetenidoTotal: parseClp(detalle.ivaRetenidoTotal),
+      ivaRetenidoParcial: parseClp(detalle.ivaRetenidoParcial),
+      ivaNoRetenido: parseClp(detalle.ivaNoRetenido),
+      ivaPropio: parseClp(detalle.ivaPropio),
+      ivaTerceros: parseClp(detalle.ivaTerceros),
+      nceNdeFacturaVenta: detalle.nceNdeFacturaVenta ? parseFloat(detalle.nceNdeFacturaVenta) : null,
+      estado: detalle.estado
+    }
+  }
+
   return {
     // Legacy state
     loading,
     error,
+    ventasError,
     data,
 
     // New state
     empresas,
     selectedEmpresa,
+    selectedRutEmpresa,
     periodos,
     selectedPeriodo,
     resumenCompras,
     detalleCompras,
+    resumenVentas,
+    detalleVentas,
+    rangoPeriodos,
+    loadingDetalle,
+    detalleQuery,
+    detallePagination,
+    detalleTotales,
     tiposDte,
     proveedores,
+    notasAjuste,
 
     // Date selection state
     currentMonth,
@@ -294,12 +747,25 @@ export const useFormsStore = defineStore('forms', () => {
     getAll,
 
     // New actions
+    setDetalleQuery,
+    queryDetalleCompras,
+    fetchAllDetalleCompras,
+    fetchDetallePeriodo,
+    loadRangoPeriodos,
     loadEmpresas,
     loadPeriodosByEmpresa,
     loadResumenCompras,
     loadDetalleCompras,
+    loadResumenVentas,
+    loadDetalleVentas,
     loadTiposDte,
     loadProveedores,
+    loadComprasProveedor,
+    loadComprasImpagas,
+    loadNotasAjuste,
+    findFacturaDeNota,
+    setEmpresa,
+    clearSession,
 
     // Date selection actions
     setMonth,
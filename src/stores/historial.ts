@@ -0,0 +1,76 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { notasApi } from '../services/api'
+import { notaKeyId } from '../utils/notaKey'
+import type { NotaCambio, NotaCambiosQuery, NotaKey, Pagination } from '../types/api'
+
+export const ACTIVIDAD_PAGE_SIZE = 50
+
+export const useHistorialStore = defineStore('historial', () => {
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Per-document history, keyed by notaKeyId
+  const historialPorDocumento = ref<Record<string, NotaCambio[]>>({})
+
+  // Global activity feed
+  const actividad = ref<NotaCambio[]>([])
+  const actividadQuery = ref<NotaCambiosQuery>({ page: 1, limit: ACTIVIDAD_PAGE_SIZE })
+  const actividadPagination = ref<Pagination | null>(null)
+
+  // Getters
+  const getHistorial = (key: NotaKey): NotaCambio[] => {
+    return historialPorDocumento.value[notaKeyId(key)] || []
+  }
+
+  // Actions
+  const loadHistorial = async (key: NotaKey): Promise<NotaCambio[]> => {
+    loading.value = true
+    error.value = null
+    try {
+      const response = await notasApi.getHistorial(key)
+      historialPorDocumento.value[notaKeyId(key)] = response.data
+      return response.data
+    } catch (err: unknown) {
+      console.error('Error loading historial:', err)
+      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error loading historial'
+      return []
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Merge the given filters into the current query and fetch that page
+  const loadActividad = async (query: NotaCambiosQuery = {}): Promise<void> => {
+    actividadQuery.value = { ...actividadQuery.value, ...query }
+    loading.value = true
+    error.value = null
+    try {
+      const response = await notasApi.getActividad(actividadQuery.value)
+      actividad.value = response.data.data
+      actividadPagination.value = response.data.pagination
+    } catch (err: unknown) {
+      console.error('Error loading actividad:', err)
+      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error loading actividad'
+    } finally {
+      loading.value = false
+    }
+  }
+
+  return {
+    // State
+    loading,
+    error,
+    historialPorDocumento,
+    actividad,
+    actividadQuery,
+    actividadPagination,
+
+    // Getters
+    getHistorial,
+
+    // Actions
+    loadHistorial,
+    loadActividad
+  }
+})
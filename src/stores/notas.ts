@@ -1,33 +1,120 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
+import { ref, computed, toRaw } from 'vue'
 import { notasApi } from '../services/api'
-import type { Notas } from '../types/api'
+import { notasQueue, type NotaEditPendiente } from '../services/notasQueue'
+import { notaKeyFromDetalle, notaKeyId } from '../utils/notaKey'
+import { PERMISO_POR_CAMPO, type Permiso } from '../utils/permisos'
+import { useAuthStore } from './auth'
+import type {
+  Notas,
+  NotaCampo,
+  NotaConflictResponse,
+  NotaKey,
+  NotaLegacy,
+  NotasBulkItemResult,
+  NotasBulkUpdate
+} from '../types/api'
+
+type CampoValue = string | boolean
+
+// Saved nota, 'queued' when the API was unreachable and the edit waits in the
+// offline queue, or null when the change was rejected and rolled back
+export type NotaUpdateResult = Notas | 'queued' | null
+
+// Backoff between replays of the offline queue
+const RETRY_BASE_MS = 2000
+const RETRY_MAX_MS = 5 * 60 * 1000
+
+// No answer at all, or the gateway answering for an API that is asleep or down
+const isOfflineError = (err: unknown): boolean => {
+  const { response, request } = err as { response?: { status?: number }; request?: unknown }
+  if (!response) return request !== undefined
+  return [502, 503, 504].includes(response.status ?? 0)
+}
+
+// The session expired and couldn't be refreshed; the edit waits for the next login
+const isSessionError = (err: unknown): boolean =>
+  (err as { response?: { status?: number } }).response?.status === 401
+
+export type ConflictoResolucion = 'mine' | 'theirs'
+
+// A single-field update rejected because someone else saved the nota first
+export interface NotaConflicto {
+  key: NotaKey
+  campo: NotaCampo
+  valorLocal: CampoValue
+  notaServidor: Notas
+  resolve: (resolucion: ConflictoResolucion) => void
+}
 
 export const useNotasStore = defineStore('notas', () => {
   const loading = ref(false)
   const error = ref<string | null>(null)
   const notas = ref<Notas[]>([])
+  const notasLegacy = ref<NotaLegacy[]>([])
+  const conflicto = ref<NotaConflicto | null>(null)
+  // Bumped when a session ends, so requests still out from it don't write
+  // their notas into the next session's list
+  let sesion = 0
+
+  // Role check shared by every write action, so callers other than the UI
+  // can't get around it. Sets the error and returns false when denied.
+  const authorize = (...permisos: Permiso[]): boolean => {
+    const authStore = useAuthStore()
+    const denied = permisos.find(permiso => !authStore.can(permiso))
+    if (denied === undefined) return true
+    error.value = authStore.denyReason(denied)
+    return false
+  }
+
+  // Permissions needed to write the given fields
+  const permisosPara = (data: { comentario?: string; contabilizado?: boolean; pagado?: boolean }): Permiso[] => [
+    ...(data.comentario !== undefined ? [PERMISO_POR_CAMPO.comentario] : []),
+    ...(data.contabilizado !== undefined ? [PERMISO_POR_CAMPO.contabilizado] : []),
+    ...(data.pagado !== undefined ? [PERMISO_POR_CAMPO.pagado] : [])
+  ]
+
+  const keyOf = (nota: Notas): NotaKey | null => {
+    if (nota.rutProveedor === null || nota.tipoDte === null) return null
+    return { rutProveedor: nota.rutProveedor, tipoDte: nota.tipoDte, folio: nota.folio }
+  }
+
+  const sameKey = (nota: Notas, key: NotaKey): boolean => {
+    const notaKey = keyOf(nota)
+    return notaKey !== null && notaKeyId(notaKey) === notaKeyId(key)
+  }
 
   // Computed properties for easy access
   const notasMap = computed(() => {
     const map = new Map<string, Notas>()
     notas.value.forEach(nota => {
-      map.set(nota.folio, nota)
+      const key = keyOf(nota)
+      if (key) map.set(notaKeyId(key), nota)
     })
     return map
   })
 
-  // Get nota by folio
-  const getNotaByFolio = (folio: string): Notas | undefined => {
-    return notasMap.value.get(folio)
+  // Get the nota of one document
+  const getNota = (key: NotaKey): Notas | undefined => {
+    return notasMap.value.get(notaKeyId(key))
+  }
+
+  // Replace the local copy of a nota, or add it if it isn't loaded yet
+  const upsertNota = (nota: Notas, key: NotaKey): void => {
+    const index = notas.value.findIndex(n => sameKey(n, key))
+    if (index !== -1) {
+      notas.value[index] = nota
+    } else {
+      notas.value.push(nota)
+    }
   }
 
   // Actions
-  const loadAllNotas = async (): Promise<void> => {
+  const loadAllNotas = async (rutEmpresa?: string): Promise<void> => {
     loading.value = true
     error.value = null
     try {
-      const response = await notasApi.getAllNotas()
+      const response = await notasApi.getAllNotas(rutEmpresa)
       notas.value = response.data
     } catch (err: unknown) {
       console.error('Error loading notas:', err)
@@ -37,21 +124,13 @@ export const useNotasStore = defineStore('notas', () => {
     }
   }
 
-  // Load nota by folio
-  const loadNotaByFolio = async (folio: string): Promise<Notas | null> => {
+  // Load the nota of one document
+  const loadNota = async (key: NotaKey): Promise<Notas | null> => {
     loading.value = true
     error.value = null
     try {
-      const response = await notasApi.getNotaByFolio(folio)
-
-      // Update or add to local store
-      const existingIndex = notas.value.findIndex(n => n.folio === folio)
-      if (existingIndex >= 0) {
-        notas.value[existingIndex] = response.data
-      } else {
-        notas.value.push(response.data)
-      }
-
+      const response = await notasApi.getNota(key)
+      upsertNota(response.data, key)
       return response.data
     } catch (err: unknown) {
       console.error('Error loading nota:', err)
@@ -63,13 +142,13 @@ export const useNotasStore = defineStore('notas', () => {
   }
 
   // Create nota
-  const createNota = async (data: {
-    folio: string
+  const createNota = async (data: NotaKey & {
     comentario?: string
     contabilizado?: boolean
   }): Promise<Notas | null> => {
-    loading.value = true
     error.value = null
+    if (!authorize(...permisosPara(data))) return null
+    loading.value = true
     try {
       const response = await notasApi.createNota(data)
       const newNota = response.data
@@ -89,25 +168,21 @@ export const useNotasStore = defineStore('notas', () => {
 
   // Update nota
   const updateNota = async (
-    folio: string,
+    key: NotaKey,
     data: {
       comentario?: string
       contabilizado?: boolean
     }
   ): Promise<Notas | null> => {
-    loading.value = true
     error.value = null
+    if (!authorize(...permisosPara(data))) return null
+    loading.value = true
     try {
-      const response = await notasApi.updateNota(folio, data)
+      const response = await notasApi.updateNota(key, data)
       const updatedNota = response.data
 
       // Update local state
-      const index = notas.value.findIndex(n => n.folio === folio)
-      if (index !== -1) {
-        notas.value[index] = updatedNota
-      } else {
-        notas.value.push(updatedNota)
-      }
+      upsertNota(updatedNota, key)
 
       return updatedNota
     } catch (err: unknown) {
@@ -119,147 +194,292 @@ export const useNotasStore = defineStore('notas', () => {
     }
   }
 
-  // Update comment only
-  const updateComment = async (folio: string, comentario: string): Promise<Notas | null> => {
-    loading.value = true
-    error.value = null
-    try {
-      const response = await notasApi.updateNotaComment(folio, comentario)
+  // Single-field updates run one at a time per document, so a quick second
+  // edit is sent with the updatedAt returned by the first instead of a stale one
+  const colas = new Map<string, Promise<unknown>>()
+
+  const enCola = <T>(key: NotaKey, task: () => Promise<T>): Promise<T> => {
+    const id = notaKeyId(key)
+    const previous = colas.get(id) ?? Promise.resolve()
+    const next = previous.then(task, task)
+    colas.set(id, next)
+    next.finally(() => {
+      if (colas.get(id) === next) colas.delete(id)
+    })
+    return next
+  }
 
-      // Update local state
-      const nota = getNotaByFolio(folio)
-      if (nota) {
-        nota.comentario = comentario
-        nota.updatedAt = new Date().toISOString()
-      } else {
-        // Create local representation if it doesn't exist
-        const newNota: Notas = {
-          notaId: 0, // Will be updated when we fetch from server
-          detalleId: 0, // Will be updated when we fetch from server
-          folio,
-          comentario,
-          contabilizado: false,
-          pagado: false,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        }
-        notas.value.push(newNota)
+  const CAMPO_REQUESTS: Record<NotaCampo, (key: NotaKey, value: CampoValue, expectedUpdatedAt?: string) => Promise<{ data: Notas }>> = {
+    comentario: (key, value, expected) => notasApi.updateNotaComment(key, value as string, expected),
+    contabilizado: (key, value, expected) => notasApi.updateNotaContabilizado(key, value as boolean, expected),
+    pagado: (key, value, expected) => notasApi.updateNotaPagado(key, value as boolean, expected)
+  }
 
-        // Try to fetch the actual nota from server to get the real ID
-        try {
-          await loadNotaByFolio(folio)
-        } catch {
-          // If it fails, the local representation is fine for now
+  // Wait for the user to pick a side in the conflict prompt
+  const askConflict = (conflict: Omit<NotaConflicto, 'resolve'>): Promise<ConflictoResolucion> => {
+    return new Promise(resolve => {
+      conflicto.value = { ...conflict, resolve }
+    })
+  }
+
+  const resolveConflicto = (resolucion: ConflictoResolucion): void => {
+    const current = conflicto.value
+    if (!current) return
+    conflicto.value = null
+    current.resolve(resolucion)
+  }
+
+  // Versions this client produced itself: the updatedAt a save was checked
+  // against, mapped to the one the server returned. An edit made on a row
+  // before an earlier save of it came back follows the chain to the current
+  // version; someone else's save never enters it, so it still conflicts.
+  const versionesPropias = new Map<string, string>()
+
+  const versionId = (key: NotaKey, updatedAt: string) => `${notaKeyId(key)}@${updatedAt}`
+
+  const versionVigente = (key: NotaKey, updatedAt?: string): string | undefined => {
+    let version = updatedAt
+    while (version !== undefined) {
+      const siguiente = versionesPropias.get(versionId(key, version))
+      if (siguiente === undefined) break
+      version = siguiente
+    }
+    return version
+  }
+
+  // Send one field change, asking the user when it collides with someone
+  // else's edit. `expectedUpdatedAt` is the version of the row the user
+  // edited. Throws on any other failure.
+  const sendCampo = async (
+    key: NotaKey,
+    campo: NotaCampo,
+    value: CampoValue,
+    expectedUpdatedAt?: string
+  ): Promise<Notas> => {
+    const base = versionVigente(key, expectedUpdatedAt)
+    const inicio = sesion
+    let expected = base
+    // Retried once after the user chooses to overwrite a conflicting change
+    for (;;) {
+      try {
+        const response = await CAMPO_REQUESTS[campo](key, value, expected)
+        if (inicio !== sesion) return response.data
+        if (base !== undefined) versionesPropias.set(versionId(key, base), response.data.updatedAt)
+        upsertNota(response.data, key)
+        return response.data
+      } catch (err: unknown) {
+        const response = (err as { response?: { status?: number; data?: NotaConflictResponse } }).response
+        if (response?.status !== 409 || !response.data?.nota) throw err
+
+        const notaServidor = response.data.nota
+        const resolucion = await askConflict({ key, campo, valorLocal: value, notaServidor })
+        // The session may have ended while the prompt was open
+        if (inicio !== sesion) return notaServidor
+        if (resolucion === 'theirs') {
+          upsertNota(notaServidor, key)
+          return notaServidor
         }
+        expected = notaServidor.updatedAt
       }
-
-      return response.data
-    } catch (err: unknown) {
-      console.error('Error updating comment:', err)
-      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error updating comment'
-      return null
-    } finally {
-      loading.value = false
     }
   }
 
-  // Update contabilizado status only
-  const updateContabilizado = async (folio: string, contabilizado: boolean): Promise<Notas | null> => {
-    loading.value = true
-    error.value = null
-    try {
-      const response = await notasApi.updateNotaContabilizado(folio, contabilizado)
+  // Offline queue: edits that couldn't reach the API, replayed in order
+  const pendientes = ref<NotaEditPendiente[]>([])
+  let replaying = false
+  let retryTimer: number | null = null
 
-      // Update local state
-      const nota = getNotaByFolio(folio)
-      if (nota) {
-        nota.contabilizado = contabilizado
-        nota.updatedAt = new Date().toISOString()
-      } else {
-        // Create local representation if it doesn't exist
-        const newNota: Notas = {
-          notaId: 0, // Will be updated when we fetch from server
-          detalleId: 0, // Will be updated when we fetch from server
-          folio,
-          comentario: undefined,
-          contabilizado,
-          pagado: false,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        }
-        notas.value.push(newNota)
+  const pendientesIds = computed(() => new Set(pendientes.value.map(edit => notaKeyId(edit.key))))
 
-        // Try to fetch the actual nota from server to get the real ID
+  const isPendiente = (key: NotaKey): boolean => pendientesIds.value.has(notaKeyId(key))
+
+  const scheduleRetry = (attempts: number): void => {
+    if (retryTimer !== null) clearTimeout(retryTimer)
+    const delay = Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS)
+    retryTimer = window.setTimeout(() => {
+      retryTimer = null
+      processQueue()
+    }, delay)
+  }
+
+  const usuarioActual = (): number | null => useAuthStore().usuario?.usuarioId ?? null
+
+  const enqueue = async (edit: Omit<NotaEditPendiente, 'id' | 'createdAt' | 'attempts'>): Promise<void> => {
+    const saved = await notasQueue.add({ ...edit, createdAt: new Date().toISOString(), attempts: 1 })
+    // The session may have ended while the request was out; the edit is kept
+    // for its user but doesn't join the queue of whoever is logged in now
+    if (saved.usuarioId !== usuarioActual()) return
+    pendientes.value.push(saved)
+    if (!replaying) scheduleRetry(saved.attempts)
+  }
+
+  // Replay queued edits oldest first; stops at the first one the API can't
+  // receive. Paused while nobody is logged in.
+  const processQueue = async (): Promise<void> => {
+    if (replaying || usuarioActual() === null) return
+    replaying = true
+    if (retryTimer !== null) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+    }
+
+    try {
+      const inicio = sesion
+      while (pendientes.value.length > 0) {
+        const edit = pendientes.value[0]!
         try {
-          await loadNotaByFolio(folio)
-        } catch {
-          // If it fails, the local representation is fine for now
+          await sendCampo(edit.key, edit.campo, edit.value, edit.expectedUpdatedAt)
+          // Ended mid-replay (a conflict prompt is answered 'theirs' on the
+          // way out); the edit stays saved for the user's next login
+          if (inicio !== sesion) return
+        } catch (err: unknown) {
+          if (isSessionError(err)) {
+            // Kept as is; replay resumes when the user logs in again
+            edit.lastError = (err as { message?: string }).message
+            await notasQueue.update(toRaw(edit))
+            return
+          }
+          if (isOfflineError(err)) {
+            edit.attempts++
+            edit.lastError = (err as { message?: string }).message
+            await notasQueue.update(toRaw(edit))
+            scheduleRetry(edit.attempts)
+            return
+          }
+
+          if (inicio !== sesion) return
+          // The server rejected the edit itself; retrying won't change that
+          console.error('Error replaying queued nota edit:', err)
+          error.value = `No se pudo sincronizar ${edit.campo} del folio ${edit.key.folio}: ` +
+            ((err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'error desconocido')
+          await loadNota(edit.key)
         }
-      }
 
-      return response.data
+        await notasQueue.remove(edit.id!)
+        pendientes.value.shift()
+      }
     } catch (err: unknown) {
-      console.error('Error updating contabilizado status:', err)
-      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error updating contabilizado status'
-      return null
+      console.error('Error processing nota queue:', err)
     } finally {
-      loading.value = false
+      replaying = false
     }
   }
 
-  // Update pagado status only
-  const updatePagado = async (folio: string, pagado: boolean): Promise<Notas | null> => {
-    loading.value = true
+  /**
+   * Change one field of a nota. The local copy is patched right away and
+   * restored if the request fails. If the server reports that the nota changed
+   * since `expectedUpdatedAt`, the user decides whether to overwrite it or keep
+   * the server's version. When the API can't be reached the edit is queued
+   * and 'queued' is returned. Resolves with the saved nota, or null on failure.
+   */
+  const updateCampo = (
+    key: NotaKey,
+    campo: NotaCampo,
+    value: CampoValue,
+    expectedUpdatedAt?: string
+  ): Promise<NotaUpdateResult> => enCola(key, async () => {
     error.value = null
-    try {
-      const response = await notasApi.updateNotaPagado(folio, pagado)
+    if (!authorize(PERMISO_POR_CAMPO[campo])) return null
+    const usuarioId = usuarioActual()
+
+    // Optimistic update of the local copy, if there is one
+    const local = getNota(key)
+    const snapshot = local ? { ...local } : null
+    if (local) Object.assign(local, { [campo]: value })
+
+    const inicio = sesion
+    const rollback = () => {
+      if (!snapshot || inicio !== sesion) return
+      const index = notas.value.findIndex(n => sameKey(n, key))
+      if (index !== -1) notas.value[index] = snapshot
+    }
 
-      // Update local state
-      const nota = getNotaByFolio(folio)
-      if (nota) {
-        nota.pagado = pagado
-        nota.updatedAt = new Date().toISOString()
-      } else {
-        // Create local representation if it doesn't exist
-        const newNota: Notas = {
-          notaId: 0, // Will be updated when we fetch from server
-          detalleId: 0, // Will be updated when we fetch from server
-          folio,
-          comentario: undefined,
-          contabilizado: false,
-          pagado,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        }
-        notas.value.push(newNota)
+    // Checked against the row the user edited, not the store's copy, which
+    // may have been loaded before or after what was on screen
+    const expected = expectedUpdatedAt ?? snapshot?.updatedAt
+    const edit = { usuarioId, key: { ...key }, campo, value, expectedUpdatedAt: expected }
 
-        // Try to fetch the actual nota from server to get the real ID
-        try {
-          await loadNotaByFolio(folio)
-        } catch {
-          // If it fails, the local representation is fine for now
-        }
+    try {
+      // Edits queued earlier must reach the server first
+      if (pendientes.value.length > 0) {
+        await enqueue(edit)
+        return 'queued'
       }
 
-      return response.data
+      try {
+        return await sendCampo(key, campo, value, expected)
+      } catch (err: unknown) {
+        if (!isOfflineError(err) && !isSessionError(err)) throw err
+        await enqueue(edit)
+        return 'queued'
+      }
     } catch (err: unknown) {
-      console.error('Error updating pagado status:', err)
-      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error updating pagado status'
+      console.error(`Error updating ${campo}:`, err)
+      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || `Error updating ${campo}`
+      rollback()
       return null
-    } finally {
-      loading.value = false
+    }
+  })
+
+  // Update comment only
+  const updateComment = (key: NotaKey, comentario: string, expectedUpdatedAt?: string): Promise<NotaUpdateResult> =>
+    updateCampo(key, 'comentario', comentario, expectedUpdatedAt)
+
+  // Update contabilizado status only
+  const updateContabilizado = (key: NotaKey, contabilizado: boolean, expectedUpdatedAt?: string): Promise<NotaUpdateResult> =>
+    updateCampo(key, 'contabilizado', contabilizado, expectedUpdatedAt)
+
+  // Update pagado status only
+  const updatePagado = (key: NotaKey, pagado: boolean, expectedUpdatedAt?: string): Promise<NotaUpdateResult> =>
+    updateCampo(key, 'pagado', pagado, expectedUpdatedAt)
+
+  // Pick up the logged-in user's edits left over from a previous session.
+  // Other users' edits stay saved until they log in.
+  const loadQueue = async (): Promise<void> => {
+    try {
+      const usuarioId = usuarioActual()
+      const edits = await notasQueue.getAll()
+      pendientes.value = usuarioId === null ? [] : edits.filter(edit => edit.usuarioId === usuarioId)
+      if (pendientes.value.length > 0) processQueue()
+    } catch (err: unknown) {
+      console.error('Error loading nota queue:', err)
+    }
+  }
+
+  // Forget everything loaded under the session that just ended. Its queued
+  // edits stay in IndexedDB for the same user unless `descartarDe` names them.
+  const clearSession = async (descartarDe: number | null = null): Promise<void> => {
+    sesion++
+    if (retryTimer !== null) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+    }
+    conflicto.value?.resolve('theirs')
+    conflicto.value = null
+    pendientes.value = []
+    versionesPropias.clear()
+    notas.value = []
+    notasLegacy.value = []
+    error.value = null
+    if (descartarDe !== null) {
+      await notasQueue.removeUsuario(descartarDe)
     }
   }
 
+  // Retry when the browser reports the connection is back
+  loadQueue()
+  window.addEventListener('online', () => processQueue())
+
   // Delete nota
-  const deleteNota = async (folio: string): Promise<boolean> => {
-    loading.value = true
+  const deleteNota = async (key: NotaKey): Promise<boolean> => {
     error.value = null
+    if (!authorize('administrar')) return false
+    loading.value = true
     try {
-      await notasApi.deleteNota(folio)
+      await notasApi.deleteNota(key)
 
       // Remove from local state
-      const index = notas.value.findIndex(n => n.folio === folio)
+      const index = notas.value.findIndex(n => sameKey(n, key))
       if (index !== -1) {
         notas.value.splice(index, 1)
       }
@@ -274,6 +494,89 @@ export const useNotasStore = defineStore('notas', () => {
     }
   }
 
+  // Apply one change to many documents in a single request. Items that fail
+  // don't abort the rest; the caller gets a result per item.
+  const bulkUpdate = async (
+    keys: NotaKey[],
+    changes: Omit<NotasBulkUpdate, 'items'>
+  ): Promise<NotasBulkItemResult[]> => {
+    error.value = null
+    const permisos = permisosPara({
+      comentario: changes.appendComentario,
+      contabilizado: changes.contabilizado,
+      pagado: changes.pagado
+    })
+    if (!authorize(...permisos)) {
+      return keys.map(key => ({ key, success: false, error: error.value || undefined }))
+    }
+    loading.value = true
+    try {
+      const response = await notasApi.bulkUpdateNotas({ items: keys, ...changes })
+
+      // Update local state with the notas that were saved
+      response.data.results.forEach(result => {
+        if (result.success && result.nota) upsertNota(result.nota, result.key)
+      })
+
+      return response.data.results
+    } catch (err: unknown) {
+      console.error('Error updating notas in bulk:', err)
+      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error updating notas in bulk'
+      // The request itself failed, so nothing was applied
+      return keys.map(key => ({ key, success: false, error: error.value || undefined }))
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Folio-only notas left over from before notas were keyed per document
+  const loadNotasLegacy = async (): Promise<NotaLegacy[]> => {
+    loading.value = true
+    error.value = null
+    try {
+      const response = await notasApi.getNotasLegacy()
+      notasLegacy.value = response.data
+      return response.data
+    } catch (err: unknown) {
+      console.error('Error loading legacy notas:', err)
+      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error loading legacy notas'
+      return []
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Attach one legacy nota to the document it belongs to
+  const migrateNotaLegacy = async (notaId: number, key: NotaKey): Promise<Notas | null> => {
+    error.value = null
+    if (!authorize('administrar')) return null
+    loading.value = true
+    try {
+      const response = await notasApi.migrateNotaLegacy(notaId, key)
+      notasLegacy.value = notasLegacy.value.filter(n => n.notaId !== notaId)
+      upsertNota(response.data, key)
+      return response.data
+    } catch (err: unknown) {
+      console.error('Error migrating nota:', err)
+      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error migrating nota'
+      return null
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Migrate every legacy nota whose folio matches exactly one document.
+  // Ambiguous ones stay in notasLegacy for the user to assign by hand.
+  const migrateNotasLegacyUnambiguous = async (): Promise<number> => {
+    const unambiguous = notasLegacy.value.filter(n => n.candidatos.length === 1)
+    let migrated = 0
+    for (const nota of unambiguous) {
+      const result = await migrateNotaLegacy(nota.notaId, notaKeyFromDetalle(nota.candidatos[0]!))
+      if (result) migrated++
+    }
+    return migrated
+  }
+
   // Clear all notas
   const clearNotas = (): void => {
     notas.value = []
@@ -285,22 +588,35 @@ export const useNotasStore = defineStore('notas', () => {
     loading,
     error,
     notas,
+    notasLegacy,
+    conflicto,
+    pendientes,
 
     // Computed
     notasMap,
 
     // Getters
-    getNotaByFolio,
+    getNota,
+    isPendiente,
 
     // Actions
     loadAllNotas,
-    loadNotaByFolio,
+    loadNota,
     createNota,
     updateNota,
     updateComment,
     updateContabilizado,
     updatePagado,
+    resolveConflicto,
+    processQueue,
+    loadQueue,
+    clearSession,
+    upsertNota,
     deleteNota,
+    bulkUpdate,
+    loadNotasLegacy,
+    migrateNotaLegacy,
+    migrateNotasLegacyUnambiguous,
     clearNotas
   }
 })
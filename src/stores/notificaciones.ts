@@ -0,0 +1,84 @@
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import type { NewRecordNotification } from '../services/notificationService'
+
+// localStorage key holding the received notifications
+const NOTIFICACIONES_STORAGE_KEY = 'consultas-sii:notificaciones'
+
+// Oldest entries are dropped past this many
+const MAX_NOTIFICACIONES = 200
+
+export interface NotificacionRecibida {
+  id: string
+  data: NewRecordNotification
+  leida: boolean
+  recibidaAt: string
+}
+
+const loadNotificaciones = (): NotificacionRecibida[] => {
+  try {
+    const raw = localStorage.getItem(NOTIFICACIONES_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as NotificacionRecibida[]) : []
+  } catch {
+    return []
+  }
+}
+
+export const useNotificacionesStore = defineStore('notificaciones', () => {
+  // Newest first
+  const notificaciones = ref<NotificacionRecibida[]>(loadNotificaciones())
+
+  // Persist every change so the list survives reloads; an empty list leaves no key
+  watch(notificaciones, (value) => {
+    if (value.length === 0) {
+      localStorage.removeItem(NOTIFICACIONES_STORAGE_KEY)
+    } else {
+      localStorage.setItem(NOTIFICACIONES_STORAGE_KEY, JSON.stringify(value))
+    }
+  }, { deep: true })
+
+  const unreadCount = computed(() => notificaciones.value.filter(n => !n.leida).length)
+
+  // Store a received notification; the same event delivered twice is kept once
+  const addNotificacion = (data: NewRecordNotification): NotificacionRecibida | null => {
+    const id = `${data.rutProveedor}|${data.tipoDTE}|${data.folio}|${data.timestamp}`
+    if (notificaciones.value.some(n => n.id === id)) return null
+
+    const notificacion: NotificacionRecibida = {
+      id,
+      data,
+      leida: false,
+      recibidaAt: new Date().toISOString()
+    }
+    notificaciones.value = [notificacion, ...notificaciones.value].slice(0, MAX_NOTIFICACIONES)
+    return notificacion
+  }
+
+  const markAsRead = (id: string): void => {
+    const notificacion = notificaciones.value.find(n => n.id === id)
+    if (notificacion) notificacion.leida = true
+  }
+
+  const markAllAsRead = (): void => {
+    notificaciones.value.forEach(n => { n.leida = true })
+  }
+
+  const clearNotificaciones = (): void => {
+    notificaciones.value = []
+    localStorage.removeItem(NOTIFICACIONES_STORAGE_KEY)
+  }
+
+  return {
+    // State
+    notificaciones,
+
+    // Computed
+    unreadCount,
+
+    // Actions
+    addNotificacion,
+    markAsRead,
+    markAllAsRead,
+    clearNotificaciones
+  }
+})
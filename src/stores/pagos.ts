@@ -0,0 +1,147 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { notasApi } from '../services/api'
+import { useNotasStore } from './notas'
+import { useAuthStore } from './auth'
+import { notaKeyId } from '../utils/notaKey'
+import { clp, parseClp, sumClp, type Clp } from '../utils/money'
+import type { Pago, PagoCambio, MetodoPago, NotaKey, Notas } from '../types/api'
+
+export const METODOS_PAGO: { value: MetodoPago; label: string }[] = [
+  { value: 'transferencia', label: 'Transferencia' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'efectivo', label: 'Efectivo' },
+  { value: 'tarjeta', label: 'Tarjeta' },
+  { value: 'vale_vista', label: 'Vale vista' },
+  { value: 'otro', label: 'Otro' }
+]
+
+// What the store needs to know about the invoice a payment belongs to
+export interface FacturaPagable {
+  // Net of the notas de crédito/débito that modify the invoice
+  montoTotal: Clp
+}
+
+export const usePagosStore = defineStore('pagos', () => {
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+  // Keyed by notaKeyId of the invoice
+  const pagosPorDocumento = ref<Record<string, Pago[]>>({})
+
+  // Getters
+  const getPagos = (key: NotaKey): Pago[] => {
+    return pagosPorDocumento.value[notaKeyId(key)] || []
+  }
+
+  const getMontoPagado = (key: NotaKey): Clp => {
+    return sumClp(getPagos(key).map(pago => parseClp(pago.monto)))
+  }
+
+  // Outstanding balance against the invoice total; never negative
+  const getSaldo = (key: NotaKey, montoTotal: Clp): Clp => {
+    return clp(Math.max(montoTotal - getMontoPagado(key), 0))
+  }
+
+  // Payments are treasury's; sets the error when the role doesn't allow them
+  const canPagar = (): boolean => {
+    const authStore = useAuthStore()
+    if (authStore.can('pagar')) return true
+    error.value = authStore.denyReason('pagar')
+    return false
+  }
+
+  // The server answers a payment change with the nota, pagado already
+  // following the balance; the notas store keeps that copy
+  const applyCambio = (key: NotaKey, cambio: PagoCambio): void => {
+    useNotasStore().upsertNota(cambio.nota, key)
+  }
+
+  // Actions
+  const loadPagos = async (key: NotaKey): Promise<Pago[]> => {
+    loading.value = true
+    error.value = null
+    try {
+      const response = await notasApi.getPagos(key)
+      pagosPorDocumento.value[notaKeyId(key)] = response.data
+      return response.data
+    } catch (err: unknown) {
+      console.error('Error loading pagos:', err)
+      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error loading pagos'
+      return []
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Register a payment; the invoice is marked pagado once its balance reaches zero
+  const addPago = async (
+    key: NotaKey,
+    factura: FacturaPagable,
+    data: {
+      fecha: string
+      monto: Clp
+      metodo: MetodoPago
+      referencia?: string
+    }
+  ): Promise<PagoCambio | null> => {
+    error.value = null
+    if (!canPagar()) return null
+    loading.value = true
+    try {
+      const response = await notasApi.createPago(key, { ...data, montoFactura: factura.montoTotal })
+      const { pago } = response.data
+      if (pago) pagosPorDocumento.value[notaKeyId(key)] = [...getPagos(key), pago]
+      applyCambio(key, response.data)
+      return response.data
+    } catch (err: unknown) {
+      console.error('Error creating pago:', err)
+      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error creating pago'
+      return null
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Resolves with the nota as the deletion left it, or null on failure
+  const deletePago = async (key: NotaKey, pagoId: number, factura: FacturaPagable): Promise<Notas | null> => {
+    error.value = null
+    if (!canPagar()) return null
+    loading.value = true
+    try {
+      const response = await notasApi.deletePago(key, pagoId, factura.montoTotal)
+      pagosPorDocumento.value[notaKeyId(key)] = getPagos(key).filter(p => p.pagoId !== pagoId)
+      applyCambio(key, response.data)
+      return response.data.nota
+    } catch (err: unknown) {
+      console.error('Error deleting pago:', err)
+      error.value = (err as { response?: { data?: { message?: string } }; message?: string }).response?.data?.message || 'Error deleting pago'
+      return null
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Forget the payments loaded under a session that ended
+  const clearPagos = (): void => {
+    pagosPorDocumento.value = {}
+    error.value = null
+  }
+
+  return {
+    // State
+    loading,
+    error,
+    pagosPorDocumento,
+
+    // Getters
+    getPagos,
+    getMontoPagado,
+    getSaldo,
+
+    // Actions
+    loadPagos,
+    addPago,
+    deletePago,
+    clearPagos
+  }
+})
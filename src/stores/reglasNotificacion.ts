@@ -0,0 +1,79 @@
+import { defineStore } from 'pinia'
+import { ref, watch } from 'vue'
+import type { NewRecordNotification } from '../types/api'
+import { evaluarReglas, type ReglaNotificacion } from '../utils/reglasNotificacion'
+
+// localStorage key holding the user's notification rules
+const REGLAS_STORAGE_KEY = 'consultas-sii:reglas-notificacion'
+
+const loadReglas = (): ReglaNotificacion[] => {
+  try {
+    const raw = localStorage.getItem(REGLAS_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as ReglaNotificacion[]) : []
+  } catch {
+    return []
+  }
+}
+
+export const nuevaRegla = (): ReglaNotificacion => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  nombre: 'Nueva regla',
+  activa: true,
+  montoMinimo: null,
+  rutProveedores: [],
+  tiposDte: [],
+  canal: 'browser',
+  silencioDesde: '',
+  silencioHasta: ''
+})
+
+export const useReglasNotificacionStore = defineStore('reglasNotificacion', () => {
+  const reglas = ref<ReglaNotificacion[]>(loadReglas())
+
+  // Persist every change so the rules survive reloads; no rules leaves no key
+  watch(reglas, (value) => {
+    if (value.length === 0) {
+      localStorage.removeItem(REGLAS_STORAGE_KEY)
+    } else {
+      localStorage.setItem(REGLAS_STORAGE_KEY, JSON.stringify(value))
+    }
+  }, { deep: true })
+
+  const saveRegla = (regla: ReglaNotificacion): void => {
+    const index = reglas.value.findIndex(r => r.id === regla.id)
+    if (index === -1) {
+      reglas.value.push(regla)
+    } else {
+      reglas.value[index] = regla
+    }
+  }
+
+  const deleteRegla = (id: string): void => {
+    reglas.value = reglas.value.filter(r => r.id !== id)
+  }
+
+  const toggleRegla = (id: string): void => {
+    const regla = reglas.value.find(r => r.id === id)
+    if (regla) regla.activa = !regla.activa
+  }
+
+  const evaluar = (data: NewRecordNotification) => evaluarReglas(reglas.value, data)
+
+  // Rules belong to whoever set them up; dropped when their session ends
+  const clearReglas = (): void => {
+    reglas.value = []
+    localStorage.removeItem(REGLAS_STORAGE_KEY)
+  }
+
+  return {
+    // State
+    reglas,
+
+    // Actions
+    saveRegla,
+    deleteRegla,
+    toggleRegla,
+    evaluar,
+    clearReglas
+  }
+})
@@ -1,5 +1,100 @@
 import { defineStore } from 'pinia';
 import { siiApi } from '@/services/api';
+import { fechaLocal } from '@/utils/fechas';
+import type { SiiCallCount, SiiCallHistoryEntry, SiiFetchJob } from '@/types/api';
+
+// How often a running job is polled, and how many poll failures in a row are
+// tolerated before giving up on it (the job itself keeps running server-side)
+const JOB_POLL_MS = 2000;
+const JOB_POLL_MAX_FAILURES = 5;
+// A job still running after this long is left alone; the jobs panel can pick it up again
+const JOB_POLL_MAX_MS = 30 * 60 * 1000;
+
+// Counter that each SII download increments; the daily limit applies to it
+export const SII_FETCH_FUNCTION = 'fetchSIIData';
+
+// localStorage key holding the daily limit configuration
+const LIMITE_STORAGE_KEY = 'consultas-sii:sii-limite-diario';
+
+export interface LimiteDiario {
+  limite: number;
+  // Percentage of the limit from which fetches ask for confirmation
+  avisoPorcentaje: number;
+}
+
+const DEFAULT_LIMITE: LimiteDiario = { limite: 30, avisoPorcentaje: 80 };
+
+const loadLimite = (): LimiteDiario => {
+  try {
+    const raw = localStorage.getItem(LIMITE_STORAGE_KEY);
+    return raw ? { ...DEFAULT_LIMITE, ...(JSON.parse(raw) as Partial<LimiteDiario>) } : { ...DEFAULT_LIMITE };
+  } catch {
+    return { ...DEFAULT_LIMITE };
+  }
+};
+
+export interface EstadoCuota {
+  // null when today's usage couldn't be loaded
+  usadosHoy: number | null;
+  limite: number;
+  // Calls left after the ones about to be made
+  restantes: number;
+  // 'desconocido' when the usage couldn't be checked; fetches still ask first
+  nivel: 'ok' | 'aviso' | 'excedido' | 'desconocido';
+}
+
+// Confirmation text shown before a fetch that reaches the warning level
+export const mensajeCuota = (cuota: EstadoCuota, llamadas: number) => {
+  if (cuota.usadosHoy === null) {
+    return `No se pudo comprobar cuántas consultas al SII se han hecho hoy (límite ${cuota.limite}) y esta acción hará ${llamadas}.` +
+      '\n\nSi el límite ya se alcanzó, podría bloquear las credenciales del SII. ¿Continuar de todas formas?';
+  }
+  const base = `Hoy se han hecho ${cuota.usadosHoy} de ${cuota.limite} consultas al SII y esta acción hará ${llamadas} más.`;
+  return cuota.nivel === 'excedido'
+    ? `${base}\n\nEsto supera el límite diario y podría bloquear las credenciales del SII. ¿Continuar de todas formas?`
+    : `${base}\n\nQuedarían ${cuota.restantes} consultas disponibles hoy. ¿Continuar?`;
+};
+
+export interface BackfillMes {
+  year: string;
+  month: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  jobId: string | null;
+  error: string | null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// One poller per job, shared by everyone waiting on it. Kept out of the state
+// since promises aren't serializable.
+interface JobPoller {
+  promise: Promise<SiiFetchJob>;
+  cancelled: boolean;
+}
+const pollers = new Map<string, JobPoller>();
+
+const isTerminal = (job: SiiFetchJob) => job.status === 'completed' || job.status === 'failed';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as { response?: { data?: { message?: string } } })?.response?.data?.message
+  || (error instanceof Error ? error.message : '')
+  || fallback;
+
+// Every month from desde to hasta inclusive, both as "YYYY-MM"
+export const mesesEntre = (desde: string, hasta: string): { year: string; month: string }[] => {
+  const [desdeYear, desdeMonth] = desde.split('-').map(Number);
+  const [hastaYear, hastaMonth] = hasta.split('-').map(Number);
+  const meses: { year: string; month: string }[] = [];
+  for (let y = desdeYear, m = desdeMonth; y < hastaYear || (y === hastaYear && m <= hastaMonth);) {
+    meses.push({ year: y.toString(), month: m.toString().padStart(2, '0') });
+    m++;
+    if (m > 12) {
+      m = 1;
+      y++;
+    }
+  }
+  return meses;
+};
 
 export const useSiiStore = defineStore('sii', {
   state: () => ({
@@ -10,17 +105,105 @@ export const useSiiStore = defineStore('sii', {
       month: string;
       timestamp: Date;
     } | null,
+    // Newest first
+    jobs: [] as SiiFetchJob[],
+    // Job behind the current single-period fetch
+    currentJobId: null as string | null,
+    backfill: [] as BackfillMes[],
+    backfillRunning: false,
+    limiteDiario: loadLimite(),
+    callCount: null as SiiCallCount | null,
+    callHistory: [] as SiiCallHistoryEntry[],
+    usageLoading: false,
+    usageError: null as string | null,
   }),
 
   actions: {
+    upsertJob(job: SiiFetchJob) {
+      const index = this.jobs.findIndex(j => j.jobId === job.jobId);
+      if (index === -1) {
+        this.jobs.unshift(job);
+      } else {
+        this.jobs[index] = job;
+      }
+    },
+
+    // Poll a job until it completes or fails. A job already being polled
+    // shares that poller instead of starting another one.
+    waitForJob(jobId: string): Promise<SiiFetchJob> {
+      const existing = pollers.get(jobId);
+      if (existing) return existing.promise;
+
+      const poller = { cancelled: false } as JobPoller;
+      const poll = async (): Promise<SiiFetchJob> => {
+        const deadline = Date.now() + JOB_POLL_MAX_MS;
+        let failures = 0;
+        for (;;) {
+          await sleep(JOB_POLL_MS);
+          if (poller.cancelled) throw new Error('Se dejó de seguir el trabajo del SII');
+          if (Date.now() > deadline) {
+            throw new Error(`El trabajo del SII sigue en curso después de ${JOB_POLL_MAX_MS / 60000} minutos`);
+          }
+          try {
+            const response = await siiApi.getFetchJob(jobId);
+            failures = 0;
+            this.upsertJob(response.data);
+            if (isTerminal(response.data)) return response.data;
+          } catch (error) {
+            failures++;
+            console.error(`Error polling SII job ${jobId}:`, error);
+            if (failures >= JOB_POLL_MAX_FAILURES) throw error;
+          }
+        }
+      };
+
+      poller.promise = poll().finally(() => {
+        if (pollers.get(jobId) === poller) pollers.delete(jobId);
+      });
+      pollers.set(jobId, poller);
+      return poller.promise;
+    },
+
+    // Stop following every job, e.g. when the session ends
+    stopPolling() {
+      pollers.forEach(poller => {
+        poller.cancelled = true;
+      });
+      pollers.clear();
+    },
+
+    // Recent jobs from the server; resumes polling for any still running
+    async loadJobs() {
+      try {
+        const response = await siiApi.getFetchJobs();
+        this.jobs = response.data;
+        this.jobs
+          .filter(job => !isTerminal(job))
+          .forEach(job => this.waitForJob(job.jobId).catch(() => undefined));
+      } catch (error) {
+        console.error('Error loading SII jobs:', error);
+      }
+    },
+
     async fetchAndStore(year: string, month: string) {
+      // One download at a time keeps the SII session and the daily count predictable
+      if (this.backfillRunning) {
+        throw new Error('Hay una carga de varios meses en curso; espera a que termine');
+      }
       this.loading = true;
       this.error = null;
 
       try {
         console.log(`Fetching SII data for ${year}/${month}...`);
 
-        const response = await siiApi.fetchAndStore(year, month);
+        const response = await siiApi.createFetchJob(year, month);
+        this.upsertJob(response.data);
+        this.currentJobId = response.data.jobId;
+
+        const job = isTerminal(response.data) ? response.data : await this.waitForJob(response.data.jobId);
+        if (job.status === 'failed') {
+          throw new Error(job.errors[0] || 'La obtención de datos del SII falló');
+        }
 
         this.lastFetchInfo = {
           year,
@@ -28,21 +211,126 @@ export const useSiiStore = defineStore('sii', {
           timestamp: new Date()
         };
 
-        console.log('SII data fetch completed:', response.data);
-        return response.data;
+        console.log('SII data fetch completed:', job);
+        return job;
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error
-          ? error.message
-          : (error as { response?: { data?: { message?: string } } })?.response?.data?.message
-          || 'Error al obtener datos de SII';
-        this.error = errorMessage;
+        const message = errorMessage(error, 'Error al obtener datos de SII');
+        this.error = message;
         console.error('Error fetching SII data:', error);
-        throw new Error(errorMessage);
+        throw new Error(message);
       } finally {
         this.loading = false;
+        this.currentJobId = null;
+      }
+    },
+
+    // Fetch every month in the range one after another. A failed month is
+    // recorded and skipped so the rest of the range still gets loaded.
+    async runBackfill(desde: string, hasta: string) {
+      if (this.backfillRunning || this.loading) return;
+      this.backfill = mesesEntre(desde, hasta).map(({ year, month }) => ({
+        year,
+        month,
+        status: 'pending',
+        jobId: null,
+        error: null
+      }));
+      await this.processBackfill();
+    },
+
+    // Run the failed months of the last backfill again
+    async retryBackfillFailed() {
+      if (this.backfillRunning || this.loading) return;
+      this.backfill
+        .filter(mes => mes.status === 'failed')
+        .forEach(mes => {
+          mes.status = 'pending';
+          mes.error = null;
+        });
+      await this.processBackfill();
+    },
+
+    async processBackfill() {
+      this.backfillRunning = true;
+      try {
+        for (const mes of this.backfill) {
+          if (mes.status !== 'pending') continue;
+          mes.status = 'running';
+          try {
+            const response = await siiApi.createFetchJob(mes.year, mes.month);
+            this.upsertJob(response.data);
+            mes.jobId = response.data.jobId;
+
+            const job = isTerminal(response.data) ? response.data : await this.waitForJob(response.data.jobId);
+            mes.status = job.status === 'completed' ? 'completed' : 'failed';
+            mes.error = job.status === 'failed' ? job.errors[0] || 'Error desconocido' : null;
+          } catch (error) {
+            mes.status = 'failed';
+            mes.error = errorMessage(error, 'Error al crear el trabajo');
+          }
+        }
+      } finally {
+        this.backfillRunning = false;
+      }
+    },
+
+    clearBackfill() {
+      if (!this.backfillRunning) this.backfill = [];
+    },
+
+    async loadCallCount() {
+      try {
+        const response = await siiApi.getCallCount();
+        this.callCount = response.data;
+      } catch (error) {
+        // Keep the last known value
+        console.error('Error fetching call count:', error);
+      }
+    },
+
+    async loadCallHistory(desde: string, hasta: string) {
+      this.usageLoading = true;
+      this.usageError = null;
+      try {
+        const response = await siiApi.getCallHistory({ desde, hasta });
+        this.callHistory = response.data;
+      } catch (error) {
+        this.usageError = errorMessage(error, 'Error al cargar el historial de uso');
+        console.error('Error loading SII call history:', error);
+      } finally {
+        this.usageLoading = false;
       }
     },
 
+    setLimiteDiario(limite: LimiteDiario) {
+      this.limiteDiario = { ...limite };
+      localStorage.setItem(LIMITE_STORAGE_KEY, JSON.stringify(this.limiteDiario));
+    },
+
+    // Today's SII downloads against the daily limit, assuming `llamadas` more
+    // are about to be made. Asks the server so other tabs and users count too.
+    async checkCuota(llamadas = 1): Promise<EstadoCuota> {
+      const hoy = fechaLocal();
+      const { limite, avisoPorcentaje } = this.limiteDiario;
+      let usadosHoy = 0;
+      try {
+        const response = await siiApi.getCallHistory({ desde: hoy, hasta: hoy, functionName: SII_FETCH_FUNCTION });
+        usadosHoy = response.data
+          .filter(entry => entry.functionName === SII_FETCH_FUNCTION && entry.date === hoy)
+          .reduce((sum, entry) => sum + entry.callCount, 0);
+      } catch (error) {
+        // The limit may already be reached; the caller has to confirm
+        console.error('Error checking SII quota:', error);
+        return { usadosHoy: null, limite, restantes: 0, nivel: 'desconocido' };
+      }
+
+      const proyectado = usadosHoy + llamadas;
+      const nivel = proyectado > limite
+        ? 'excedido'
+        : proyectado >= limite * (avisoPorcentaje / 100) ? 'aviso' : 'ok';
+      return { usadosHoy, limite, restantes: Math.max(0, limite - proyectado), nivel };
+    },
+
     clearError() {
       this.error = null;
     }
@@ -51,6 +339,9 @@ export const useSiiStore = defineStore('sii', {
   getters: {
     isLoading: (state) => state.loading,
     hasError: (state) => !!state.error,
-    getLastFetchInfo: (state) => state.lastFetchInfo
+    getLastFetchInfo: (state) => state.lastFetchInfo,
+    currentJob: (state) => state.jobs.find(job => job.jobId === state.currentJobId) || null,
+    runningJobs: (state) => state.jobs.filter(job => !isTerminal(job)),
+    backfillFailed: (state) => state.backfill.filter(mes => mes.status === 'failed')
   }
 });
@@ -0,0 +1,80 @@
+import { defineStore } from 'pinia'
+import { ref, watch } from 'vue'
+import type { FacturasViewState } from '../utils/facturasViewState'
+
+// localStorage key holding the user's saved facturas views
+const VISTAS_STORAGE_KEY = 'consultas-sii:vistas'
+
+export interface VistaGuardada {
+  nombre: string
+  state: FacturasViewState
+  createdAt: string
+}
+
+const loadVistas = (): VistaGuardada[] => {
+  try {
+    const raw = localStorage.getItem(VISTAS_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as VistaGuardada[]) : []
+  } catch {
+    return []
+  }
+}
+
+export const useVistasStore = defineStore('vistas', () => {
+  const vistas = ref<VistaGuardada[]>(loadVistas())
+
+  // Persist every change so views survive reloads; no views leaves no key
+  watch(vistas, (value) => {
+    if (value.length === 0) {
+      localStorage.removeItem(VISTAS_STORAGE_KEY)
+    } else {
+      localStorage.setItem(VISTAS_STORAGE_KEY, JSON.stringify(value))
+    }
+  }, { deep: true })
+
+  const getVista = (nombre: string): VistaGuardada | undefined => {
+    return vistas.value.find(v => v.nombre === nombre)
+  }
+
+  // Save a view; a view with the same name is overwritten
+  const saveVista = (nombre: string, state: FacturasViewState): VistaGuardada => {
+    const vista: VistaGuardada = {
+      nombre,
+      // Deep copy so later edits to the table don't change the saved view
+      state: JSON.parse(JSON.stringify(state)),
+      createdAt: new Date().toISOString()
+    }
+
+    const index = vistas.value.findIndex(v => v.nombre === nombre)
+    if (index !== -1) {
+      vistas.value[index] = vista
+    } else {
+      vistas.value.push(vista)
+    }
+
+    return vista
+  }
+
+  const deleteVista = (nombre: string): void => {
+    vistas.value = vistas.value.filter(v => v.nombre !== nombre)
+  }
+
+  // Saved views are the user's own; dropped when their session ends
+  const clearVistas = (): void => {
+    vistas.value = []
+    localStorage.removeItem(VISTAS_STORAGE_KEY)
+  }
+
+  return {
+    // State
+    vistas,
+
+    // Getters
+    getVista,
+
+    // Actions
+    saveVista,
+    deleteVista,
+    clearVistas
+  }
+})
@@ -1,3 +1,5 @@
+import type { Clp, MontoApi } from '../utils/money';
+
 // Backend model types
 export interface Empresa {
   rutEmpresa: string;
@@ -29,11 +31,13 @@ export interface ResumenCompras {
   periodoId: number;
   tipoDte: number;
   totalDocumentos: number;
-  montoExento: string;
-  montoNeto: string;
-  montoIvaRecuperable: string;
-  montoIvaNoRecuperable: string;
-  montoTotal: string;
+  montoExento: MontoApi;
+  montoNeto: MontoApi;
+  montoIvaRecuperable: MontoApi;
+  montoIvaNoRecuperable: MontoApi;
+  montoTotal: MontoApi;
+  ivaUsoComun?: MontoApi;
+  ivaActivoFijo?: MontoApi;
   estado: 'Confirmada' | 'Pendiente' | 'Rechazada';
   periodo?: Periodo;
   tipoDteInfo?: TipoDte;
@@ -50,20 +54,20 @@ export interface DetalleCompras {
   fechaRecepcion: string;
   acuseRecibo?: string;
   fechaAcuse?: string;
-  montoExento: string;
-  montoNeto: string;
-  montoIvaRecuperable: string;
-  montoIvaNoRecuperable: string;
+  montoExento: MontoApi;
+  montoNeto: MontoApi;
+  montoIvaRecuperable: MontoApi;
+  montoIvaNoRecuperable: MontoApi;
   codigoIvaNoRecuperable?: number;
-  montoTotal: string;
-  montoNetoActivoFijo: string;
-  ivaActivoFijo: string;
-  ivaUsoComun: string;
-  impuestoSinDerechoCredito: string;
-  ivaNoRetenido: string;
-  tabacosPuros?: string;
-  tabacosCigarrillos?: string;
-  tabacosElaborados?: string;
+  montoTotal: MontoApi;
+  montoNetoActivoFijo: MontoApi;
+  ivaActivoFijo: MontoApi;
+  ivaUsoComun: MontoApi;
+  impuestoSinDerechoCredito: MontoApi;
+  ivaNoRetenido: MontoApi;
+  tabacosPuros?: MontoApi;
+  tabacosCigarrillos?: MontoApi;
+  tabacosElaborados?: MontoApi;
   nceNdeFacturaCompra: string;
   valorOtroImpuesto?: string;
   tasaOtroImpuesto?: string;
@@ -76,6 +80,93 @@ export interface DetalleCompras {
   nota?: Notas;
 }
 
+export interface Cliente {
+  rutCliente: string;
+  razonSocial: string;
+}
+
+export interface ResumenVentas {
+  resumenId: number;
+  periodoId: number;
+  tipoDte: number;
+  totalDocumentos: number;
+  montoExento: MontoApi;
+  montoNeto: MontoApi;
+  montoIva: MontoApi;
+  montoTotal: MontoApi;
+  estado: 'Confirmada' | 'Pendiente' | 'Rechazada';
+  periodo?: Periodo;
+  tipoDteInfo?: TipoDte;
+}
+
+export interface DetalleVentas {
+  detalleId: number;
+  periodoId: number;
+  tipoDte: number;
+  tipoVenta: string;
+  rutCliente: string;
+  folio: string;
+  fechaEmision: string;
+  fechaRecepcion: string;
+  fechaAcuseRecibo?: string;
+  fechaReclamo?: string;
+  montoExento: MontoApi;
+  montoNeto: MontoApi;
+  montoIva: MontoApi;
+  montoTotal: MontoApi;
+  ivaRetenidoTotal: MontoApi;
+  ivaRetenidoParcial: MontoApi;
+  ivaNoRetenido: MontoApi;
+  ivaPropio: MontoApi;
+  ivaTerceros: MontoApi;
+  nceNdeFacturaVenta?: string;
+  estado: 'Confirmada' | 'Pendiente' | 'Rechazada';
+  periodo?: Periodo;
+  tipoDteInfo?: TipoDte;
+  cliente?: Cliente;
+}
+
+export interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// Filters, sort and paging accepted by the detalle compras endpoint
+export interface DetalleComprasQuery {
+  rutEmpresa?: string;
+  rutProveedor?: string;
+  razonSocial?: string;
+  tipoDte?: string;
+  estado?: string;
+  pagado?: boolean;
+  fechaInicio?: string;
+  fechaFin?: string;
+  montoMinimo?: number;
+  montoMaximo?: number;
+  search?: string;
+  sortField?: string;
+  sortDirection?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+// Totals over every row matching the query, not only the returned page
+export interface DetalleComprasTotales {
+  totalDocumentos: number;
+  montoExento: MontoApi;
+  montoNeto: MontoApi;
+  montoIvaRecuperable: MontoApi;
+  montoTotal: MontoApi;
+}
+
+export interface DetalleComprasPage {
+  data: DetalleCompras[];
+  pagination: Pagination;
+  totales?: DetalleComprasTotales;
+}
+
 export interface OtrosImpuestos {
   otroImpuestoId: number;
   detalleId: number;
@@ -84,9 +175,31 @@ export interface OtrosImpuestos {
   valor: string;
 }
 
+// Payload of the new_record socket event, also returned by the missed-events endpoint
+export interface NewRecordNotification {
+  folio: string;
+  rutProveedor: string;
+  razonSocial: string;
+  montoTotal: number;
+  tipoDTE: number;
+  tipoDTEString: string;
+  fechaEmision: string;
+  timestamp: string;
+}
+
+// Identifies a purchase document: folios only repeat across suppliers and tipos DTE
+export interface NotaKey {
+  rutProveedor: string;
+  tipoDte: number;
+  folio: string;
+}
+
 export interface Notas {
   notaId: number;
   detalleId: number;
+  // null on notas created when they were keyed by folio alone
+  rutProveedor: string | null;
+  tipoDte: number | null;
   folio: string;
   comentario?: string;
   contabilizado: boolean;
@@ -94,6 +207,164 @@ export interface Notas {
   createdAt: string;
   updatedAt: string;
   detalleCompra?: DetalleCompras;
+  pagos?: Pago[];
+}
+
+// Returned with a 409 when the nota changed since the version the client edited
+export interface NotaConflictResponse {
+  message: string;
+  nota: Notas;
+}
+
+// Same change applied to many documents in one request
+export interface NotasBulkUpdate {
+  items: NotaKey[];
+  contabilizado?: boolean;
+  pagado?: boolean;
+  // Appended to each document's existing comment rather than replacing it
+  appendComentario?: string;
+}
+
+export interface NotasBulkItemResult {
+  key: NotaKey;
+  success: boolean;
+  nota?: Notas;
+  error?: string;
+}
+
+export interface NotasBulkResult {
+  results: NotasBulkItemResult[];
+}
+
+// Fields of a nota whose changes are recorded in the audit log
+export type NotaCampo = 'comentario' | 'contabilizado' | 'pagado';
+
+// One change to one field of a nota. Values are serialized as strings by the
+// backend ('true'/'false' for flags); null means the field had no value.
+export interface NotaCambio {
+  cambioId: number;
+  notaId: number;
+  rutProveedor: string;
+  tipoDte: number;
+  folio: string;
+  campo: NotaCampo;
+  valorAnterior: string | null;
+  valorNuevo: string | null;
+  usuario: string | null;
+  createdAt: string;
+}
+
+// Filters and paging accepted by the notas activity endpoint
+export interface NotaCambiosQuery {
+  rutEmpresa?: string;
+  rutProveedor?: string;
+  folio?: string;
+  campo?: NotaCampo;
+  usuario?: string;
+  desde?: string;
+  hasta?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface NotaCambiosPage {
+  data: NotaCambio[];
+  pagination: Pagination;
+}
+
+// Folio-only nota awaiting migration, with the documents that share its folio
+export interface NotaLegacy extends Notas {
+  candidatos: DetalleCompras[];
+}
+
+export type MetodoPago = 'transferencia' | 'cheque' | 'efectivo' | 'tarjeta' | 'vale_vista' | 'otro';
+
+export interface Pago {
+  pagoId: number;
+  notaId: number;
+  folio: string;
+  fecha: string;
+  monto: MontoApi;
+  metodo: MetodoPago;
+  referencia?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Answer to registering or deleting a payment. The server sets the nota's
+// pagado flag from the new balance in the same transaction and returns it.
+export interface PagoCambio {
+  // The payment created; null when one was deleted
+  pago: Pago | null;
+  nota: Notas;
+}
+
+export type SiiFetchJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Server-side SII download for one period, polled until it finishes
+export interface SiiFetchJob {
+  jobId: string;
+  year: string;
+  month: string;
+  status: SiiFetchJobStatus;
+  // 0-100
+  progress: number;
+  inserted: number;
+  updated: number;
+  errors: string[];
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface SiiCallCounter {
+  functionName: string;
+  callCount: number;
+  lastCalledAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SiiCallCount {
+  message: string;
+  fetchSIIDataCount: number;
+  allCounters: SiiCallCounter[];
+  timestamp: string;
+}
+
+// Calls made to one SII function on one day
+export interface SiiCallHistoryEntry {
+  functionName: string;
+  // YYYY-MM-DD
+  date: string;
+  callCount: number;
+}
+
+export interface SiiCallHistoryQuery {
+  desde?: string;
+  hasta?: string;
+  functionName?: string;
+}
+
+export type RolUsuario = 'admin' | 'contador' | 'tesoreria' | 'auditor';
+
+export interface Usuario {
+  usuarioId: number;
+  nombre: string;
+  email: string;
+  rol: RolUsuario;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+// Returned by login and refresh
+export interface AuthResponse {
+  accessToken: string;
+  refreshToken: string;
+  usuario: Usuario;
 }
 
 // Legacy types for compatibility with existing SII API format
@@ -103,6 +374,14 @@ export interface OtroImpuesto {
   codigo: number;
 }
 
+// Nota de crédito or débito as listed on the factura it modifies
+export interface NotaAjuste {
+  tipoDTE: number;
+  folio: number;
+  fechaEmision: string;
+  montoTotal: Clp;
+}
+
 export interface DetalleCompra {
   tipoDTEString: string;
   tipoDTE: number;
@@ -113,20 +392,20 @@ export interface DetalleCompra {
   fechaEmision: string;
   fechaRecepcion: string;
   acuseRecibo: string | null;
-  montoExento: number;
-  montoNeto: number;
-  montoIvaRecuperable: number;
-  montoIvaNoRecuperable: number;
+  montoExento: Clp;
+  montoNeto: Clp;
+  montoIvaRecuperable: Clp;
+  montoIvaNoRecuperable: Clp;
   codigoIvaNoRecuperable: number;
-  montoTotal: number;
-  montoNetoActivoFijo: number;
-  ivaActivoFijo: number;
-  ivaUsoComun: number;
-  impuestoSinDerechoCredito: number;
-  ivaNoRetenido: number;
-  tabacosPuros: number | null;
-  tabacosCigarrillos: number | null;
-  tabacosElaborados: number | null;
+  montoTotal: Clp;
+  montoNetoActivoFijo: Clp;
+  ivaActivoFijo: Clp;
+  ivaUsoComun: Clp;
+  impuestoSinDerechoCredito: Clp;
+  ivaNoRetenido: Clp;
+  tabacosPuros: Clp | null;
+  tabacosCigarrillos: Clp | null;
+  tabacosElaborados: Clp | null;
   nceNdeFacturaCompra: number;
   valorOtroImpuesto: string;
   tasaOtroImpuesto: string;
@@ -137,18 +416,25 @@ export interface DetalleCompra {
   otrosImpuestos?: OtroImpuesto[];
   contabilizado?: boolean;
   pagado?: boolean;
+  montoPagado?: Clp;
+  // Notas that reference this factura through nceNdeFacturaCompra, and its total net of them
+  notasAjuste?: NotaAjuste[];
+  montoAjustado?: Clp;
+  // Version of the nota the row was loaded with, for conflict detection
+  notaUpdatedAt?: string;
 }
 
 export interface ResumenCompra {
   tipoDte: number;
   tipoDteString: string;
   totalDocumentos: number;
-  montoExento: number;
-  montoNeto: number;
-  ivaRecuperable: number;
-  ivaUsoComun: number;
-  ivaNoRecuperable: number;
-  montoTotal: number;
+  montoExento: Clp;
+  montoNeto: Clp;
+  ivaRecuperable: Clp;
+  ivaUsoComun: Clp;
+  ivaActivoFijo: Clp;
+  ivaNoRecuperable: Clp;
+  montoTotal: Clp;
   estado: string;
 }
 
@@ -166,9 +452,52 @@ export interface Compras {
   detalleCompras: DetalleCompra[];
 }
 
+// Compras of one periodo, used when several periodos are loaded together
+export interface PeriodoCompras {
+  periodo: Periodo;
+  nombreMes: string;
+  resumenes: ResumenCompra[];
+  detalleCompras: DetalleCompra[];
+}
+
+export interface DetalleVenta {
+  tipoDTEString: string;
+  tipoDTE: number;
+  tipoVenta: string;
+  rutCliente: string;
+  razonSocial: string;
+  folio: number;
+  fechaEmision: string;
+  fechaRecepcion: string;
+  fechaAcuseRecibo: string | null;
+  fechaReclamo: string | null;
+  montoExento: Clp;
+  montoNeto: Clp;
+  montoIva: Clp;
+  montoTotal: Clp;
+  ivaRetenidoTotal: Clp;
+  ivaRetenidoParcial: Clp;
+  ivaNoRetenido: Clp;
+  ivaPropio: Clp;
+  ivaTerceros: Clp;
+  nceNdeFacturaVenta: number | null;
+  estado: string;
+}
+
+export interface ResumenVenta {
+  tipoDte: number;
+  tipoDteString: string;
+  totalDocumentos: number;
+  montoExento: Clp;
+  montoNeto: Clp;
+  montoIva: Clp;
+  montoTotal: Clp;
+  estado: string;
+}
+
 export interface Ventas {
-  resumenes: unknown[];
-  detalleVentas: unknown[];
+  resumenes: ResumenVenta[];
+  detalleVentas: DetalleVenta[];
 }
 
 export interface FormResponse {
@@ -0,0 +1,136 @@
+import type { DetalleCompra } from '../types/api';
+import { TIPO_DTE_NOTA_CREDITO, TIPO_DTE_NOTA_DEBITO } from './f29';
+import { efectoNota, esNotaAjuste, facturaId, folioFacturaReferida, montoNeto } from './notasAjuste';
+import { sumClp, type Clp } from './money';
+import { fechaDesdeIso } from './fechas';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const TRAMOS_ANTIGUEDAD = [
+  { key: '0-30', label: '0–30 días', hasta: 30 },
+  { key: '31-60', label: '31–60 días', hasta: 60 },
+  { key: '61-90', label: '61–90 días', hasta: 90 },
+  { key: '90+', label: 'Más de 90 días', hasta: Infinity }
+] as const;
+
+export type TramoAntiguedad = (typeof TRAMOS_ANTIGUEDAD)[number]['key'];
+export type MontosPorTramo = Record<TramoAntiguedad, number>;
+
+export interface DocumentoPendiente {
+  compra: DetalleCompra;
+  // Days elapsed since fechaEmision at the cut-off date
+  dias: number;
+  saldo: number;
+  tramo: TramoAntiguedad;
+}
+
+export interface AntiguedadProveedor {
+  rutProveedor: string;
+  razonSocial: string;
+  tramos: MontosPorTramo;
+  total: number;
+  documentos: number;
+}
+
+export interface ReporteAntiguedad {
+  fechaCorte: Date;
+  proveedores: AntiguedadProveedor[];
+  totales: MontosPorTramo;
+  total: number;
+  documentos: DocumentoPendiente[];
+}
+
+const montosVacios = (): MontosPorTramo => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+export const tramoPorDias = (dias: number): TramoAntiguedad =>
+  TRAMOS_ANTIGUEDAD.find(t => dias <= t.hasta)!.key;
+
+// Whole days between two dates, ignoring the time of day
+export const diasEntre = (desde: Date, hasta: Date): number => {
+  const inicio = Date.UTC(desde.getFullYear(), desde.getMonth(), desde.getDate());
+  const fin = Date.UTC(hasta.getFullYear(), hasta.getMonth(), hasta.getDate());
+  return Math.round((fin - inicio) / MS_PER_DAY);
+};
+
+// What is still owed on a document, net of its notas and of the payments
+// registered against it
+export const saldoPendiente = (compra: DetalleCompra): number => {
+  if (compra.pagado) return 0;
+  return Math.max(montoNeto(compra) - (compra.montoPagado || 0), 0);
+};
+
+/**
+ * The documents owed on their own among `compras`. Notas de crédito are not
+ * payables. A nota de débito is owed through its factura while that factura
+ * is open; once the factura is pagado, or isn't among `compras`, the débito
+ * wasn't part of what was paid and is listed by itself.
+ */
+export const documentosPorPagar = (compras: DetalleCompra[]): DetalleCompra[] => {
+  const facturasAbiertas = new Set(
+    compras
+      .filter(compra => !esNotaAjuste(compra.tipoDTE) && !compra.pagado)
+      .map(compra => facturaId(compra.rutProveedor, compra.folio))
+  );
+  return compras.filter(compra => {
+    if (compra.tipoDTE === TIPO_DTE_NOTA_CREDITO) return false;
+    const folio = folioFacturaReferida(compra);
+    return folio === null || !facturasAbiertas.has(facturaId(compra.rutProveedor, folio));
+  });
+};
+
+// What a document counts for among the payables. A pagado factura leaves out
+// its notas de débito, which documentosPorPagar lists by themselves.
+export const montoPorPagar = (compra: DetalleCompra): Clp => {
+  if (!compra.pagado || esNotaAjuste(compra.tipoDTE)) return montoNeto(compra);
+  const notas = (compra.notasAjuste || []).filter(nota => nota.tipoDTE !== TIPO_DTE_NOTA_DEBITO);
+  return sumClp([compra.montoTotal, ...notas.map(efectoNota)]);
+};
+
+/**
+ * Build the accounts payable aging report: every document with an outstanding
+ * balance is placed in a bucket by its age at `fechaCorte`, then summed per
+ * proveedor and in total. Facturas count at their balance net of the notas
+ * that modify them. Notas de crédito are left out, and notas de débito count
+ * by themselves only when their factura is no longer open (see
+ * documentosPorPagar); documents dated after the cut-off count as 0 days old.
+ */
+export const calcularAntiguedad = (
+  compras: DetalleCompra[],
+  fechaCorte: Date = new Date()
+): ReporteAntiguedad => {
+  const documentos: DocumentoPendiente[] = documentosPorPagar(compras)
+    .map(compra => {
+      const dias = Math.max(diasEntre(fechaDesdeIso(compra.fechaEmision), fechaCorte), 0);
+      return { compra, dias, saldo: saldoPendiente(compra), tramo: tramoPorDias(dias) };
+    })
+    .filter(documento => documento.saldo > 0)
+    .sort((a, b) => b.dias - a.dias);
+
+  const proveedores = new Map<string, AntiguedadProveedor>();
+  const totales = montosVacios();
+
+  documentos.forEach(({ compra, saldo, tramo }) => {
+    const proveedor = proveedores.get(compra.rutProveedor) || {
+      rutProveedor: compra.rutProveedor,
+      razonSocial: compra.razonSocial,
+      tramos: montosVacios(),
+      total: 0,
+      documentos: 0
+    };
+    proveedor.tramos[tramo] += saldo;
+    proveedor.total += saldo;
+    proveedor.documentos += 1;
+    proveedores.set(compra.rutProveedor, proveedor);
+
+    totales[tramo] += saldo;
+  });
+
+  return {
+    fechaCorte,
+    // Largest debts first, which is how treasury reviews the list
+    proveedores: Array.from(proveedores.values()).sort((a, b) => b.total - a.total),
+    totales,
+    total: documentos.reduce((sum, d) => sum + d.saldo, 0),
+    documentos
+  };
+};
@@ -0,0 +1,122 @@
+import type { DetalleCompra, ResumenCompra } from '../types/api';
+import { sumClp } from './money';
+import { notaKeyFromCompra, notaKeyId } from './notaKey';
+
+export const CAMPOS_CONCILIACION = [
+  { key: 'documentos', label: 'Documentos', esCantidad: true },
+  { key: 'montoExento', label: 'Exento', esCantidad: false },
+  { key: 'montoNeto', label: 'Neto', esCantidad: false },
+  { key: 'ivaRecuperable', label: 'IVA recuperable', esCantidad: false },
+  { key: 'ivaNoRecuperable', label: 'IVA no recuperable', esCantidad: false },
+  { key: 'montoTotal', label: 'Total', esCantidad: false }
+] as const;
+
+export type CampoConciliacion = (typeof CAMPOS_CONCILIACION)[number]['key'];
+export type ValoresConciliacion = Record<CampoConciliacion, number>;
+
+// Why a single document is listed as suspect
+export type MotivoObservacion = 'duplicado' | 'sin-resumen';
+
+export const MOTIVOS_OBSERVACION: Record<MotivoObservacion, string> = {
+  duplicado: 'Duplicado en el detalle',
+  'sin-resumen': 'Tipo sin fila en el resumen'
+};
+
+export interface DocumentoObservado {
+  compra: DetalleCompra;
+  motivo: MotivoObservacion;
+}
+
+export interface ConciliacionTipo {
+  tipoDte: number;
+  tipoDteString: string;
+  // Null when the SII resumen has no row for this tipo
+  resumen: ValoresConciliacion | null;
+  detalle: ValoresConciliacion;
+  // Fields where the detalle sums differ from the resumen
+  diferencias: CampoConciliacion[];
+  documentos: DetalleCompra[];
+  observados: DocumentoObservado[];
+}
+
+export interface ReporteConciliacion {
+  tipos: ConciliacionTipo[];
+  cuadra: boolean;
+  tiposConDiferencias: number;
+}
+
+const valoresResumen = (resumen: ResumenCompra): ValoresConciliacion => ({
+  documentos: resumen.totalDocumentos,
+  montoExento: resumen.montoExento,
+  montoNeto: resumen.montoNeto,
+  ivaRecuperable: resumen.ivaRecuperable,
+  ivaNoRecuperable: resumen.ivaNoRecuperable,
+  montoTotal: resumen.montoTotal
+});
+
+const valoresDetalle = (compras: DetalleCompra[]): ValoresConciliacion => ({
+  documentos: compras.length,
+  montoExento: sumClp(compras.map(compra => compra.montoExento)),
+  montoNeto: sumClp(compras.map(compra => compra.montoNeto)),
+  ivaRecuperable: sumClp(compras.map(compra => compra.montoIvaRecuperable)),
+  ivaNoRecuperable: sumClp(compras.map(compra => compra.montoIvaNoRecuperable)),
+  montoTotal: sumClp(compras.map(compra => compra.montoTotal))
+});
+
+// Rows loaded more than once for the same proveedor, tipo and folio
+const duplicados = (compras: DetalleCompra[]): DetalleCompra[] => {
+  const vistos = new Set<string>();
+  return compras.filter(compra => {
+    const id = notaKeyId(notaKeyFromCompra(compra));
+    if (vistos.has(id)) return true;
+    vistos.add(id);
+    return false;
+  });
+};
+
+/**
+ * Checks the period's detalle compras against the SII resumen: the detalle
+ * rows are summed per tipoDte and compared field by field with the resumen
+ * row of the same tipo. Amounts are whole pesos, so any difference counts.
+ * A tipo present on only one side differs on every non-zero field.
+ */
+export const conciliarCompras = (
+  resumenes: ResumenCompra[],
+  compras: DetalleCompra[]
+): ReporteConciliacion => {
+  const porTipo = new Map<number, DetalleCompra[]>();
+  compras.forEach(compra => {
+    porTipo.set(compra.tipoDTE, [...(porTipo.get(compra.tipoDTE) || []), compra]);
+  });
+
+  const tiposDte = new Set([...resumenes.map(r => r.tipoDte), ...porTipo.keys()]);
+  const tipos = Array.from(tiposDte)
+    .sort((a, b) => a - b)
+    .map((tipoDte): ConciliacionTipo => {
+      const documentos = porTipo.get(tipoDte) || [];
+      const resumenTipo = resumenes.find(r => r.tipoDte === tipoDte);
+      const resumen = resumenTipo ? valoresResumen(resumenTipo) : null;
+      const detalle = valoresDetalle(documentos);
+
+      const diferencias = CAMPOS_CONCILIACION
+        .map(campo => campo.key)
+        .filter(campo => detalle[campo] !== (resumen ? resumen[campo] : 0));
+
+      const observados: DocumentoObservado[] = resumen
+        ? duplicados(documentos).map(compra => ({ compra, motivo: 'duplicado' }))
+        : documentos.map(compra => ({ compra, motivo: 'sin-resumen' }));
+
+      return {
+        tipoDte,
+        tipoDteString: resumenTipo?.tipoDteString || documentos[0]?.tipoDTEString || `Tipo ${tipoDte}`,
+        resumen,
+        detalle,
+        diferencias,
+        documentos,
+        observados
+      };
+    });
+
+  const tiposConDiferencias = tipos.filter(t => t.diferencias.length > 0 || t.observados.length > 0).length;
+  return { tipos, cuadra: tiposConDiferencias === 0, tiposConDiferencias };
+};
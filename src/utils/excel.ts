@@ -0,0 +1,19 @@
+import * as XLSX from 'xlsx';
+
+// Number format for peso columns: thousands separator, no decimals
+const FORMATO_CLP = '#,##0';
+
+// Gives the peso columns of a json_to_sheet worksheet the CLP number format.
+// The cells stay plain integers, so sums in Excel match the SII's.
+export const formatoClpColumnas = (ws: XLSX.WorkSheet, columnas: string[]) => {
+  if (!ws['!ref']) return;
+  const rango = XLSX.utils.decode_range(ws['!ref']);
+  for (let c = rango.s.c; c <= rango.e.c; c++) {
+    const encabezado = ws[XLSX.utils.encode_cell({ r: rango.s.r, c })];
+    if (!encabezado || !columnas.includes(String(encabezado.v))) continue;
+    for (let r = rango.s.r + 1; r <= rango.e.r; r++) {
+      const celda = ws[XLSX.utils.encode_cell({ r, c })];
+      if (celda?.t === 'n') celda.z = FORMATO_CLP;
+    }
+  }
+};
@@ -0,0 +1,157 @@
+import type { ResumenCompra, ResumenVenta } from '../types/api';
+
+// Tipos DTE that reverse or increase the amount of a previous document
+export const TIPO_DTE_NOTA_CREDITO = 61;
+export const TIPO_DTE_NOTA_DEBITO = 56;
+
+// Purchase documents whose IVA is never credit (exempt invoices and receipts)
+const TIPOS_DTE_SIN_IVA = [34, 38, 41];
+
+export interface LineaF29 {
+  codigo: number;
+  glosa: string;
+  valor: number;
+  // Document counts are filed as plain numbers, not amounts
+  esCantidad?: boolean;
+}
+
+export interface CreditoPorTipo {
+  tipoDte: number;
+  tipoDteString: string;
+  documentos: number;
+  ivaRecuperable: number;
+  ivaUsoComun: number;
+  ivaActivoFijo: number;
+  ivaNoRecuperable: number;
+  // Signed credit contributed by this tipo (negative for notas de crédito)
+  credito: number;
+}
+
+export interface DebitoPorTipo {
+  tipoDte: number;
+  tipoDteString: string;
+  documentos: number;
+  montoNeto: number;
+  montoExento: number;
+  // Signed débito contributed by this tipo (negative for notas de crédito)
+  debito: number;
+}
+
+export interface BorradorF29 {
+  creditos: CreditoPorTipo[];
+  debitos: DebitoPorTipo[];
+  totalCredito: number;
+  totalDebito: number;
+  remanenteAnterior: number;
+  ivaAPagar: number;
+  remanenteSiguiente: number;
+  lineas: LineaF29[];
+}
+
+export interface OpcionesF29 {
+  // Remanente de crédito fiscal carried over from the previous month (código 504)
+  remanenteAnterior?: number;
+  // Share of IVA uso común that can be claimed, from 0 to 1
+  factorProporcionalidad?: number;
+}
+
+const signo = (tipoDte: number) => (tipoDte === TIPO_DTE_NOTA_CREDITO ? -1 : 1);
+
+const sumarPorTipo = <T extends { tipoDte: number }>(
+  items: T[],
+  tipos: number[],
+  campo: (item: T) => number
+) => items.filter(i => tipos.includes(i.tipoDte)).reduce((sum, i) => sum + campo(i), 0);
+
+/**
+ * Builds a draft of the monthly IVA declaration (F29) from the period's
+ * resumen de compras and ventas. Amounts are rounded to whole pesos, the
+ * way the form is filed.
+ */
+export const calcularF29 = (
+  compras: ResumenCompra[],
+  ventas: ResumenVenta[],
+  opciones: OpcionesF29 = {}
+): BorradorF29 => {
+  const remanenteAnterior = Math.round(opciones.remanenteAnterior || 0);
+  const factor = Math.min(Math.max(opciones.factorProporcionalidad ?? 1, 0), 1);
+
+  const creditos: CreditoPorTipo[] = compras.map(resumen => {
+    const ivaUsoComun = Math.round(resumen.ivaUsoComun * factor);
+    const creditoBruto = TIPOS_DTE_SIN_IVA.includes(resumen.tipoDte)
+      ? 0
+      : resumen.ivaRecuperable + ivaUsoComun + resumen.ivaActivoFijo;
+
+    return {
+      tipoDte: resumen.tipoDte,
+      tipoDteString: resumen.tipoDteString,
+      documentos: resumen.totalDocumentos,
+      ivaRecuperable: resumen.ivaRecuperable,
+      ivaUsoComun,
+      ivaActivoFijo: resumen.ivaActivoFijo,
+      ivaNoRecuperable: resumen.ivaNoRecuperable,
+      credito: Math.round(creditoBruto) * signo(resumen.tipoDte)
+    };
+  });
+
+  const debitos: DebitoPorTipo[] = ventas.map(resumen => ({
+    tipoDte: resumen.tipoDte,
+    tipoDteString: resumen.tipoDteString,
+    documentos: resumen.totalDocumentos,
+    montoNeto: resumen.montoNeto,
+    montoExento: resumen.montoExento,
+    debito: Math.round(resumen.montoIva) * signo(resumen.tipoDte)
+  }));
+
+  const totalCredito = creditos.reduce((sum, c) => sum + c.credito, 0);
+  const totalDebito = debitos.reduce((sum, d) => sum + d.debito, 0);
+  const saldo = totalDebito - totalCredito - remanenteAnterior;
+
+  const tiposFactura = compras
+    .map(c => c.tipoDte)
+    .filter(t => t !== TIPO_DTE_NOTA_CREDITO && t !== TIPO_DTE_NOTA_DEBITO);
+  const tiposVenta = ventas
+    .map(v => v.tipoDte)
+    .filter(t => t !== TIPO_DTE_NOTA_CREDITO && t !== TIPO_DTE_NOTA_DEBITO);
+  const creditoDe = (tipos: number[]) =>
+    Math.abs(sumarPorTipo(creditos, tipos, c => c.credito));
+  const debitoDe = (tipos: number[]) =>
+    Math.abs(sumarPorTipo(debitos, tipos, d => d.debito));
+  const activoFijo = sumarPorTipo(
+    creditos.filter(c => c.credito !== 0),
+    tiposFactura,
+    c => c.ivaActivoFijo
+  );
+
+  const lineas: LineaF29[] = [
+    { codigo: 503, glosa: 'Cantidad de facturas emitidas', valor: sumarPorTipo(debitos, tiposVenta, d => d.documentos), esCantidad: true },
+    { codigo: 502, glosa: 'Débitos facturas emitidas', valor: debitoDe(tiposVenta) },
+    { codigo: 509, glosa: 'Cantidad de notas de crédito emitidas', valor: sumarPorTipo(debitos, [TIPO_DTE_NOTA_CREDITO], d => d.documentos), esCantidad: true },
+    { codigo: 510, glosa: 'Débitos notas de crédito emitidas', valor: debitoDe([TIPO_DTE_NOTA_CREDITO]) },
+    { codigo: 512, glosa: 'Cantidad de notas de débito emitidas', valor: sumarPorTipo(debitos, [TIPO_DTE_NOTA_DEBITO], d => d.documentos), esCantidad: true },
+    { codigo: 513, glosa: 'Débitos notas de débito emitidas', valor: debitoDe([TIPO_DTE_NOTA_DEBITO]) },
+    { codigo: 538, glosa: 'Total débitos', valor: totalDebito },
+    { codigo: 519, glosa: 'Cantidad de facturas recibidas del giro', valor: sumarPorTipo(creditos, tiposFactura, c => c.documentos), esCantidad: true },
+    { codigo: 520, glosa: 'Crédito recuperación y reintegro facturas del giro', valor: creditoDe(tiposFactura) - activoFijo },
+    { codigo: 525, glosa: 'Crédito IVA por facturas de activo fijo', valor: activoFijo },
+    { codigo: 527, glosa: 'Cantidad de notas de crédito recibidas', valor: sumarPorTipo(creditos, [TIPO_DTE_NOTA_CREDITO], c => c.documentos), esCantidad: true },
+    { codigo: 528, glosa: 'Crédito notas de crédito recibidas', valor: creditoDe([TIPO_DTE_NOTA_CREDITO]) },
+    { codigo: 531, glosa: 'Cantidad de notas de débito recibidas', valor: sumarPorTipo(creditos, [TIPO_DTE_NOTA_DEBITO], c => c.documentos), esCantidad: true },
+    { codigo: 532, glosa: 'Crédito notas de débito recibidas', valor: creditoDe([TIPO_DTE_NOTA_DEBITO]) },
+    { codigo: 504, glosa: 'Remanente crédito fiscal mes anterior', valor: remanenteAnterior },
+    { codigo: 537, glosa: 'Total créditos', valor: totalCredito + remanenteAnterior },
+    { codigo: 89, glosa: 'IVA determinado a pagar', valor: Math.max(saldo, 0) },
+    { codigo: 77, glosa: 'Remanente de crédito fiscal para el período siguiente', valor: Math.max(-saldo, 0) }
+  ];
+
+  return {
+    creditos,
+    debitos,
+    totalCredito,
+    totalDebito,
+    remanenteAnterior,
+    ivaAPagar: Math.max(saldo, 0),
+    remanenteSiguiente: Math.max(-saldo, 0),
+    lineas
+  };
+};
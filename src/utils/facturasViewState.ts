@@ -0,0 +1,181 @@
+import type { LocationQuery, LocationQueryRaw } from 'vue-router';
+import type { DetalleCompra } from '../types/api';
+
+// '' shows every document
+export type FiltroPagado = '' | 'pagado' | 'pendiente';
+
+export interface FacturasFilters {
+  rutProveedor: string;
+  razonSocial: string;
+  tipoDte: string;
+  estado: string;
+  pagado: FiltroPagado;
+  fechaDesde: string;
+  fechaHasta: string;
+  montoMinimo: string;
+  montoMaximo: string;
+}
+
+export interface FacturasSort {
+  field: keyof DetalleCompra;
+  direction: 'asc' | 'desc';
+}
+
+export const COLUMN_KEYS = [
+  'tipoDTE',
+  'rutProveedor',
+  'razonSocial',
+  'folio',
+  'fechaEmision',
+  'fechaRecepcion',
+  'montoNeto',
+  'montoIva',
+  'montoTotal',
+  'estado',
+  'contabilizado',
+  'pagado',
+  'comentario'
+] as const;
+
+export type ColumnKey = (typeof COLUMN_KEYS)[number];
+export type ColumnVisibility = Record<ColumnKey, boolean>;
+
+// Everything needed to reproduce what the facturas table shows
+export interface FacturasViewState {
+  search: string;
+  filters: FacturasFilters;
+  sort: FacturasSort;
+  columns: ColumnVisibility;
+}
+
+export const DEFAULT_FILTERS: FacturasFilters = {
+  rutProveedor: '',
+  razonSocial: '',
+  tipoDte: '',
+  estado: '',
+  pagado: '',
+  fechaDesde: '',
+  fechaHasta: '',
+  montoMinimo: '',
+  montoMaximo: ''
+};
+
+export const DEFAULT_SORT: FacturasSort = {
+  field: 'fechaEmision',
+  direction: 'desc'
+};
+
+export const DEFAULT_COLUMNS: ColumnVisibility = {
+  tipoDTE: true,
+  rutProveedor: true,
+  razonSocial: true,
+  folio: true,
+  fechaEmision: false,
+  fechaRecepcion: true,
+  montoNeto: false,
+  montoIva: false,
+  montoTotal: true,
+  estado: false,
+  contabilizado: true,
+  pagado: true,
+  comentario: true
+};
+
+const SORTABLE_FIELDS: (keyof DetalleCompra)[] = [
+  'tipoDTEString',
+  'rutProveedor',
+  'razonSocial',
+  'folio',
+  'fechaEmision',
+  'fechaRecepcion',
+  'montoNeto',
+  'montoIvaRecuperable',
+  'montoTotal',
+  'estado'
+];
+
+// Short query keys keep shared links readable
+const FILTER_QUERY_KEYS: Record<keyof FacturasFilters, string> = {
+  rutProveedor: 'rut',
+  razonSocial: 'razon',
+  tipoDte: 'tipo',
+  estado: 'estado',
+  pagado: 'pagado',
+  fechaDesde: 'desde',
+  fechaHasta: 'hasta',
+  montoMinimo: 'min',
+  montoMaximo: 'max'
+};
+
+// Query keys owned by the table state; anything else in the route is left alone
+export const VIEW_STATE_QUERY_KEYS = [
+  'q',
+  'sort',
+  'dir',
+  'cols',
+  ...Object.values(FILTER_QUERY_KEYS)
+];
+
+const firstValue = (value: LocationQuery[string]): string | undefined => {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return typeof raw === 'string' ? raw : undefined;
+};
+
+/**
+ * Encode the table state as route query params. Values equal to the
+ * defaults are omitted so an untouched table keeps a clean URL.
+ */
+export const stateToQuery = (state: FacturasViewState): LocationQueryRaw => {
+  const query: LocationQueryRaw = {};
+
+  if (state.search.trim()) query.q = state.search.trim();
+
+  (Object.keys(FILTER_QUERY_KEYS) as (keyof FacturasFilters)[]).forEach(key => {
+    if (state.filters[key]) query[FILTER_QUERY_KEYS[key]] = state.filters[key];
+  });
+
+  if (state.sort.field !== DEFAULT_SORT.field || state.sort.direction !== DEFAULT_SORT.direction) {
+    query.sort = state.sort.field;
+    query.dir = state.sort.direction;
+  }
+
+  const columnsChanged = COLUMN_KEYS.some(key => state.columns[key] !== DEFAULT_COLUMNS[key]);
+  if (columnsChanged) {
+    query.cols = COLUMN_KEYS.filter(key => state.columns[key]).join(',');
+  }
+
+  return query;
+};
+
+// Decode route query params back into a full table state, falling back to defaults
+export const stateFromQuery = (query: LocationQuery): FacturasViewState => {
+  const filters = { ...DEFAULT_FILTERS };
+  (Object.keys(FILTER_QUERY_KEYS) as (keyof FacturasFilters)[]).forEach(key => {
+    Object.assign(filters, { [key]: firstValue(query[FILTER_QUERY_KEYS[key]]) || '' });
+  });
+  // Anything else in ?pagado= shows every document
+  if (!['', 'pagado', 'pendiente'].includes(filters.pagado)) filters.pagado = '';
+
+  const sortField = firstValue(query.sort) as keyof DetalleCompra | undefined;
+  const sortDirection = firstValue(query.dir);
+  const sort: FacturasSort = {
+    field: sortField && SORTABLE_FIELDS.includes(sortField) ? sortField : DEFAULT_SORT.field,
+    direction: sortDirection === 'asc' || sortDirection === 'desc' ? sortDirection : DEFAULT_SORT.direction
+  };
+
+  const cols = firstValue(query.cols);
+  let columns = { ...DEFAULT_COLUMNS };
+  if (cols !== undefined) {
+    const visible = cols.split(',');
+    columns = Object.fromEntries(
+      COLUMN_KEYS.map(key => [key, visible.includes(key)])
+    ) as ColumnVisibility;
+  }
+
+  return {
+    search: firstValue(query.q) || '',
+    filters,
+    sort,
+    columns
+  };
+};
@@ -0,0 +1,13 @@
+// Calendar dates travel as YYYY-MM-DD strings. Going through toISOString or
+// new Date('YYYY-MM-DD') reads them in UTC, which in Chile is a day off in
+// the evening, so these convert with the local calendar instead.
+
+// Local date as YYYY-MM-DD
+export const fechaLocal = (fecha = new Date()) =>
+  `${fecha.getFullYear()}-${(fecha.getMonth() + 1).toString().padStart(2, '0')}-${fecha.getDate().toString().padStart(2, '0')}`;
+
+// Local midnight of a YYYY-MM-DD date (anything after the day is ignored)
+export const fechaDesdeIso = (fecha: string): Date => {
+  const [anio, mes, dia] = fecha.slice(0, 10).split('-').map(Number);
+  return new Date(anio!, mes! - 1, dia);
+};
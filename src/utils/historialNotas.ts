@@ -0,0 +1,19 @@
+import type { NotaCambio, NotaCampo } from '../types/api';
+
+export const CAMPOS_NOTA: { value: NotaCampo; label: string }[] = [
+  { value: 'comentario', label: 'Comentario' },
+  { value: 'contabilizado', label: 'Contabilizado' },
+  { value: 'pagado', label: 'Pagado' }
+];
+
+export const campoLabel = (campo: NotaCampo): string =>
+  CAMPOS_NOTA.find(c => c.value === campo)?.label || campo;
+
+// Render a serialized value the way the table shows it
+export const formatValorCambio = (cambio: NotaCambio, valor: string | null): string => {
+  if (valor === null || valor === '') return '—';
+  if (cambio.campo === 'contabilizado' || cambio.campo === 'pagado') {
+    return valor === 'true' ? 'Sí' : 'No';
+  }
+  return valor;
+};
@@ -0,0 +1,49 @@
+// Chilean peso amounts. The SII books everything in whole pesos, but the API
+// sends amounts as decimal strings ("1234567.00"). Going through parseFloat and
+// adding the results lets totals drift away from the SII's, so amounts become
+// integer pesos once, where the API response is transformed, and from then on
+// only integers are added.
+
+declare const clpBrand: unique symbol;
+
+// Integer amount of pesos. Reads like a number; only the helpers below make one.
+export type Clp = number & { readonly [clpBrand]: true };
+
+// Decimal amount as the API sends it
+export type MontoApi = string;
+
+export const CLP_CERO = 0 as Clp;
+
+const MONTO_DECIMAL = /^([+-]?)(\d*)(?:\.(\d*))?$/;
+
+// Rounds to the peso, half away from zero like the SII
+export const clp = (monto: number): Clp => {
+  if (!Number.isFinite(monto)) return CLP_CERO;
+  const pesos = Math.round(Math.abs(monto));
+  return (pesos === 0 ? 0 : Math.sign(monto) * pesos) as Clp;
+};
+
+// Parses the decimal string digit by digit instead of through a float, so
+// "1234567.50" is exactly 1234568. Anything unparseable counts as zero.
+export const parseClp = (monto: MontoApi | number | null | undefined): Clp => {
+  if (monto === null || monto === undefined) return CLP_CERO;
+  if (typeof monto === 'number') return clp(monto);
+
+  const match = monto.trim().match(MONTO_DECIMAL);
+  if (!match || (!match[2] && !match[3])) return CLP_CERO;
+
+  const [, signo, enteros, decimales] = match;
+  let pesos = Number(enteros || '0');
+  if (Number(decimales?.[0] || '0') >= 5) pesos += 1;
+  return (pesos === 0 ? 0 : signo === '-' ? -pesos : pesos) as Clp;
+};
+
+// Same as parseClp, but keeps a missing amount as null
+export const parseClpOpcional = (monto: MontoApi | null | undefined): Clp | null =>
+  monto === null || monto === undefined || monto === '' ? null : parseClp(monto);
+
+export const sumClp = (montos: Iterable<Clp>): Clp => {
+  let total = 0;
+  for (const monto of montos) total += monto;
+  return total as Clp;
+};
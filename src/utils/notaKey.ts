@@ -0,0 +1,17 @@
+import type { DetalleCompra, DetalleCompras, NotaKey } from '../types/api';
+
+export const notaKeyFromCompra = (compra: DetalleCompra): NotaKey => ({
+  rutProveedor: compra.rutProveedor,
+  tipoDte: compra.tipoDTE,
+  folio: compra.folio.toString()
+});
+
+export const notaKeyFromDetalle = (detalle: DetalleCompras): NotaKey => ({
+  rutProveedor: detalle.rutProveedor,
+  tipoDte: detalle.tipoDte,
+  folio: detalle.folio
+});
+
+// Stable string form of a key, for maps and v-for keys
+export const notaKeyId = (key: NotaKey): string =>
+  `${key.rutProveedor}|${key.tipoDte}|${key.folio}`;
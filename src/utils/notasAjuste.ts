@@ -0,0 +1,56 @@
+import type { DetalleCompra, NotaAjuste } from '../types/api';
+import { TIPO_DTE_NOTA_CREDITO, TIPO_DTE_NOTA_DEBITO } from './f29';
+import { clp, sumClp, type Clp } from './money';
+import { limpiarRut } from './rut';
+
+export const esNotaAjuste = (tipoDte: number): boolean =>
+  tipoDte === TIPO_DTE_NOTA_CREDITO || tipoDte === TIPO_DTE_NOTA_DEBITO;
+
+// Folio of the factura a nota modifies, from nceNdeFacturaCompra; null when
+// the document isn't a nota or doesn't reference one
+export const folioFacturaReferida = (compra: DetalleCompra): number | null =>
+  esNotaAjuste(compra.tipoDTE) && compra.nceNdeFacturaCompra > 0 ? compra.nceNdeFacturaCompra : null;
+
+// Signed effect on the factura: notas de crédito subtract, notas de débito add
+export const efectoNota = (nota: { tipoDTE: number; montoTotal: Clp }): Clp =>
+  clp(nota.tipoDTE === TIPO_DTE_NOTA_CREDITO ? -nota.montoTotal : nota.montoTotal);
+
+// Short label for lists and tooltips: "NC 1234", "ND 56"
+export const etiquetaNota = (nota: { tipoDTE: number; folio: number }): string =>
+  `${nota.tipoDTE === TIPO_DTE_NOTA_CREDITO ? 'NC' : 'ND'} ${nota.folio}`;
+
+// What a document is worth once its notas are applied; the gross total without any
+export const montoNeto = (compra: DetalleCompra): Clp => compra.montoAjustado ?? compra.montoTotal;
+
+export const facturaId = (rutProveedor: string, folio: number) => `${limpiarRut(rutProveedor)}|${folio}`;
+
+/**
+ * Links notas de crédito and débito to the facturas they modify. Every
+ * factura in `compras` referenced by a nota in `notas` gets the list of those
+ * notas and its total net of them. Notas only carry the factura's folio, so
+ * they are matched by proveedor and folio; the rows are updated in place.
+ */
+export const aplicarNotasAjuste = (compras: DetalleCompra[], notas: DetalleCompra[]): DetalleCompra[] => {
+  const porFactura = new Map<string, NotaAjuste[]>();
+  notas.forEach(nota => {
+    const folio = folioFacturaReferida(nota);
+    if (folio === null) return;
+    const id = facturaId(nota.rutProveedor, folio);
+    porFactura.set(id, [...(porFactura.get(id) || []), {
+      tipoDTE: nota.tipoDTE,
+      folio: nota.folio,
+      fechaEmision: nota.fechaEmision,
+      montoTotal: nota.montoTotal
+    }]);
+  });
+
+  compras
+    .filter(compra => !esNotaAjuste(compra.tipoDTE))
+    .forEach(compra => {
+      const notasFactura = porFactura.get(facturaId(compra.rutProveedor, compra.folio));
+      if (!notasFactura) return;
+      compra.notasAjuste = notasFactura;
+      compra.montoAjustado = sumClp([compra.montoTotal, ...notasFactura.map(efectoNota)]);
+    });
+  return compras;
+};
@@ -0,0 +1,38 @@
+import type { NotaCampo, RolUsuario } from '../types/api';
+
+export type Permiso = 'contabilizar' | 'comentar' | 'pagar' | 'administrar';
+
+export const ROL_LABELS: Record<RolUsuario, string> = {
+  admin: 'Administrador',
+  contador: 'Contabilidad',
+  tesoreria: 'Tesorería',
+  auditor: 'Auditor'
+};
+
+const PERMISOS_POR_ROL: Record<RolUsuario, Permiso[]> = {
+  admin: ['contabilizar', 'comentar', 'pagar', 'administrar'],
+  contador: ['contabilizar', 'comentar'],
+  tesoreria: ['pagar'],
+  auditor: []
+};
+
+// Permission needed to change each nota field
+export const PERMISO_POR_CAMPO: Record<NotaCampo, Permiso> = {
+  comentario: 'comentar',
+  contabilizado: 'contabilizar',
+  pagado: 'pagar'
+};
+
+const ACCIONES: Record<Permiso, string> = {
+  contabilizar: 'marcar documentos como contabilizados',
+  comentar: 'editar comentarios',
+  pagar: 'registrar pagos o marcar documentos como pagados',
+  administrar: 'acceder a las herramientas de administración'
+};
+
+export const puede = (rol: RolUsuario | null | undefined, permiso: Permiso): boolean =>
+  !!rol && PERMISOS_POR_ROL[rol].includes(permiso);
+
+// Tooltip and error text for an action the role doesn't allow
+export const motivoSinPermiso = (rol: RolUsuario | null | undefined, permiso: Permiso): string =>
+  rol ? `Tu rol (${ROL_LABELS[rol]}) no permite ${ACCIONES[permiso]}` : `Inicia sesión para ${ACCIONES[permiso]}`;
@@ -0,0 +1,84 @@
+import type { NewRecordNotification } from '../types/api';
+import { TIPO_DTE_NOTA_CREDITO, TIPO_DTE_NOTA_DEBITO } from './f29';
+import { mismoRut } from './rut';
+
+export type CanalNotificacion = 'browser' | 'in-app' | 'sound';
+
+export const CANALES_NOTIFICACION: { value: CanalNotificacion; label: string }[] = [
+  { value: 'browser', label: 'Popup del navegador' },
+  { value: 'in-app', label: 'Solo en la aplicación' },
+  { value: 'sound', label: 'Sonido' }
+];
+
+// Document types offered as conditions in the rules editor
+export const TIPOS_DTE_REGLA: { value: number; label: string }[] = [
+  { value: 33, label: 'Factura electrónica' },
+  { value: 34, label: 'Factura exenta' },
+  { value: 46, label: 'Factura de compra' },
+  { value: TIPO_DTE_NOTA_DEBITO, label: 'Nota de débito' },
+  { value: TIPO_DTE_NOTA_CREDITO, label: 'Nota de crédito' }
+];
+
+export interface ReglaNotificacion {
+  id: string;
+  nombre: string;
+  activa: boolean;
+  // Empty conditions match every record
+  montoMinimo: number | null;
+  rutProveedores: string[];
+  tiposDte: number[];
+  canal: CanalNotificacion;
+  // "HH:MM"; empty strings disable quiet hours. The range may cross midnight.
+  silencioDesde: string;
+  silencioHasta: string;
+}
+
+const minutosDelDia = (hora: string) => {
+  const [h, m] = hora.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+export const cumpleRegla = (regla: ReglaNotificacion, data: NewRecordNotification): boolean => {
+  if (regla.montoMinimo !== null && data.montoTotal < regla.montoMinimo) return false;
+  if (regla.rutProveedores.length > 0
+    && !regla.rutProveedores.some(rut => mismoRut(rut, data.rutProveedor))) {
+    return false;
+  }
+  if (regla.tiposDte.length > 0 && !regla.tiposDte.includes(data.tipoDTE)) return false;
+  return true;
+};
+
+export const enHorarioSilencio = (regla: ReglaNotificacion, fecha: Date): boolean => {
+  if (!regla.silencioDesde || !regla.silencioHasta) return false;
+
+  const ahora = fecha.getHours() * 60 + fecha.getMinutes();
+  const desde = minutosDelDia(regla.silencioDesde);
+  const hasta = minutosDelDia(regla.silencioHasta);
+  if (desde === hasta) return false;
+  return desde < hasta
+    ? ahora >= desde && ahora < hasta
+    : ahora >= desde || ahora < hasta;
+};
+
+// Channels a record should go out on. Every record is listed in-app; the rules
+// only pick the popup and sound. Without any active rule every record notifies
+// through the browser, as before rules existed. A record matched by no rule
+// stays in-app only, and quiet hours downgrade a rule the same way.
+export const evaluarReglas = (
+  reglas: ReglaNotificacion[],
+  data: NewRecordNotification,
+  fecha = new Date()
+): Set<CanalNotificacion> => {
+  const activas = reglas.filter(regla => regla.activa);
+  if (activas.length === 0) return new Set(['in-app', 'browser']);
+
+  const canales = new Set<CanalNotificacion>(['in-app']);
+  activas
+    .filter(regla => cumpleRegla(regla, data))
+    .forEach(regla => {
+      if (regla.canal !== 'in-app' && !enHorarioSilencio(regla, fecha)) {
+        canales.add(regla.canal);
+      }
+    });
+  return canales;
+};
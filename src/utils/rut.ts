@@ -0,0 +1,69 @@
+// Chilean RUT helpers. The canonical form, used in API calls and comparisons,
+// is the body without dots, a dash and an uppercase check digit: 76123456-7.
+
+// Only digits and K, uppercased: "76.123.456-k" -> "76123456K"
+export const limpiarRut = (rut: string): string => rut.toUpperCase().replace(/[^0-9K]/g, '');
+
+// Módulo 11 check digit for the numeric body
+export const calcularDv = (cuerpo: string): string => {
+  let suma = 0;
+  let factor = 2;
+  for (let i = cuerpo.length - 1; i >= 0; i--) {
+    suma += Number(cuerpo[i]) * factor;
+    factor = factor === 7 ? 2 : factor + 1;
+  }
+  const resto = 11 - (suma % 11);
+  if (resto === 11) return '0';
+  if (resto === 10) return 'K';
+  return resto.toString();
+};
+
+const partes = (rut: string): { cuerpo: string; dv: string } | null => {
+  const limpio = limpiarRut(rut);
+  const match = limpio.match(/^(\d{1,8})([0-9K])$/);
+  return match ? { cuerpo: match[1]!.replace(/^0+(?=\d)/, ''), dv: match[2]! } : null;
+};
+
+export const validarRut = (rut: string): boolean => {
+  const rutPartes = partes(rut);
+  return rutPartes !== null && calcularDv(rutPartes.cuerpo) === rutPartes.dv;
+};
+
+// Canonical form; input that isn't shaped like a RUT comes back trimmed
+export const normalizarRut = (rut: string): string => {
+  const rutPartes = partes(rut);
+  return rutPartes ? `${rutPartes.cuerpo}-${rutPartes.dv}` : rut.trim();
+};
+
+// Display form with thousands dots: 76.123.456-7
+export const formatearRut = (rut: string): string => {
+  const rutPartes = partes(rut);
+  if (!rutPartes) return rut;
+  return `${rutPartes.cuerpo.replace(/\B(?=(\d{3})+(?!\d))/g, '.')}-${rutPartes.dv}`;
+};
+
+export const mismoRut = (a: string, b: string): boolean => limpiarRut(a) === limpiarRut(b);
+
+// Partial match for search boxes, ignoring dots, dashes and case
+export const rutIncluye = (rut: string, busqueda: string): boolean => {
+  const termino = limpiarRut(busqueda);
+  return termino !== '' && limpiarRut(rut).includes(termino);
+};
+
+// True when the text only has characters a RUT can have, so a search box can
+// treat it as a RUT rather than a name
+export const pareceRut = (texto: string): boolean => /^[\d.\-\skK]+$/.test(texto.trim()) && /\d/.test(texto);
+
+// Shortest body taken as a whole RUT when typed without its dash
+const CUERPO_MINIMO_SIN_GUION = 7;
+
+// Value to send to the API for a RUT filter: a complete, valid RUT goes in
+// canonical form; anything else is sent as its digits so partial matches work.
+// Without a dash, a few digits often end in what happens to be a valid check
+// digit ("12345"), so they only count as a RUT once the body is long enough.
+export const rutParaFiltro = (texto: string): string => {
+  if (!texto.trim()) return '';
+  const limpio = limpiarRut(texto);
+  const completo = texto.includes('-') || limpio.length - 1 >= CUERPO_MINIMO_SIN_GUION;
+  return completo && validarRut(texto) ? normalizarRut(texto) : limpio;
+};